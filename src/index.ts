@@ -16,7 +16,10 @@ import userRoutes from './routes/user.js'
 import authRoutes from './routes/auth.js'
 import referralRoutes from './routes/referrals.js'
 import taskRoutes from './routes/tasks.js'
+import leaderboardRoutes from './routes/leaderboard.js'
+import referralLinkRoutes from './routes/referralLinks.js'
 import { emailService } from './services/emailService.js'
+import { leaderboardService } from './services/leaderboardService.js'
 
 // Load environment variables first
 dotenv.config()
@@ -143,12 +146,17 @@ app.use('/api/admin', adminRoutes)
 app.use('/api/user', userRoutes)
 app.use('/api/referrals', referralRoutes)
 app.use('/api/tasks', taskRoutes)
+app.use('/api/leaderboard', leaderboardRoutes)
+app.use('/r', rateLimiter, referralLinkRoutes)
 
 app.use(errorHandler)
 
 const startServer = async () => {
   try {
     await connectMongoDB()
+
+    // Keep the materialized leaderboard fresh
+    leaderboardService.start()
     
     // Test email service on startup
     if (process.env.EMAIL_HOST && process.env.EMAIL_USER && process.env.EMAIL_PASS) {
@@ -2,13 +2,16 @@ import { Request, Response, NextFunction } from 'express'
 import { AuditLog } from '../models/AuditLog.js'
 import { AuthRequest } from './auth.js'
 
+// Route params that identify the changed resource, in priority order
+const RESOURCE_ID_PARAMS = ['userId', 'taskId', 'rewardId', 'redemptionId', 'seasonId', 'badgeId', 'questId', 'referralId', 'campaignId', 'key', 'id']
+
 export const auditLog = (action: string, resourceType?: string) => {
   return async (req: AuthRequest, res: Response, next: NextFunction) => {
     const originalJson = res.json.bind(res)
     
     res.json = function (data: any) {
       if (req.user && res.statusCode < 400) {
-        const resourceId = req.params.userId || req.params.taskId || req.params.id || null
+        const resourceId = RESOURCE_ID_PARAMS.map(param => req.params[param]).find(Boolean) || null
         
         AuditLog.create({
           adminId: req.user.id,
@@ -19,6 +22,8 @@ export const auditLog = (action: string, resourceType?: string) => {
             method: req.method,
             path: req.path,
             body: req.method !== 'GET' ? req.body : null,
+            // Handlers can attach extra context (e.g. before/after values)
+            ...res.locals.auditDetails,
           },
           ipAddress: req.ip || req.socket.remoteAddress,
           userAgent: req.get('user-agent'),
@@ -0,0 +1,98 @@
+import mongoose, { Schema, Document, Types } from 'mongoose'
+
+// A single rule condition. All criteria of a badge must hold for it to be granted.
+//  - referrals_completed: completed referrals made by the user
+//  - tasks_completed:     approved/completed tasks, optionally of one taskType
+//  - points_earned:       lifetime points credited (spending and admin adjustments do not count, clawbacks do)
+//  - event_count:         OnboardingEvent rows of eventType
+export interface IBadgeCriterion {
+  metric: 'referrals_completed' | 'tasks_completed' | 'points_earned' | 'event_count'
+  threshold: number
+  taskType?: string
+  eventType?: string
+}
+
+export interface IBadge extends Document {
+  key: string
+  name: string
+  description?: string
+  iconUrl?: string
+  criteria: IBadgeCriterion[]
+  bonusPoints: number
+  isActive: boolean
+  createdBy?: Types.ObjectId
+  createdAt: Date
+  updatedAt: Date
+}
+
+const BadgeCriterionSchema = new Schema<IBadgeCriterion>(
+  {
+    metric: {
+      type: String,
+      enum: ['referrals_completed', 'tasks_completed', 'points_earned', 'event_count'],
+      required: true
+    },
+    threshold: {
+      type: Number,
+      required: true,
+      min: 1
+    },
+    taskType: {
+      type: String,
+      trim: true
+    },
+    eventType: {
+      type: String,
+      trim: true
+    }
+  },
+  { _id: false }
+)
+
+const BadgeSchema = new Schema<IBadge>(
+  {
+    key: {
+      type: String,
+      required: true,
+      unique: true,
+      trim: true,
+      lowercase: true
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    description: {
+      type: String,
+      trim: true
+    },
+    iconUrl: {
+      type: String,
+      trim: true
+    },
+    criteria: {
+      type: [BadgeCriterionSchema],
+      required: true
+    },
+    bonusPoints: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+      index: true
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'AdminUser'
+    }
+  },
+  {
+    timestamps: true
+  }
+)
+
+export const Badge = mongoose.model<IBadge>('Badge', BadgeSchema)
@@ -0,0 +1,45 @@
+import mongoose, { Schema, Document, Types } from 'mongoose'
+
+export interface ICheckIn extends Document {
+  userId: Types.ObjectId
+  date: string // YYYY-MM-DD in the check-in timezone
+  streak: number // Streak length including this check-in
+  freezesUsed: number
+  pointsAwarded: number
+  createdAt: Date
+}
+
+const CheckInSchema = new Schema<ICheckIn>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    date: {
+      type: String,
+      required: true
+    },
+    streak: {
+      type: Number,
+      required: true,
+      min: 1
+    },
+    freezesUsed: {
+      type: Number,
+      default: 0
+    },
+    pointsAwarded: {
+      type: Number,
+      default: 0
+    }
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false }
+  }
+)
+
+// One check-in per user per day
+CheckInSchema.index({ userId: 1, date: -1 }, { unique: true })
+
+export const CheckIn = mongoose.model<ICheckIn>('CheckIn', CheckInSchema)
@@ -0,0 +1,48 @@
+import mongoose, { Schema, Document, Types } from 'mongoose'
+
+// Materialized leaderboard rows. Each refresh writes a complete new snapshot
+// (same computedAt for every row) and then removes the previous one, so
+// readers always query a single consistent snapshot.
+export interface ILeaderboardEntry extends Document {
+  window: 'all' | 'weekly' | 'monthly'
+  userId: Types.ObjectId
+  rank: number
+  score: number
+  displayName: string
+  computedAt: Date
+}
+
+const LeaderboardEntrySchema = new Schema<ILeaderboardEntry>({
+  window: {
+    type: String,
+    enum: ['all', 'weekly', 'monthly'],
+    required: true
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  rank: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  score: {
+    type: Number,
+    required: true
+  },
+  displayName: {
+    type: String,
+    required: true
+  },
+  computedAt: {
+    type: Date,
+    required: true
+  }
+})
+
+LeaderboardEntrySchema.index({ window: 1, computedAt: -1, rank: 1 })
+LeaderboardEntrySchema.index({ window: 1, computedAt: -1, userId: 1 })
+
+export const LeaderboardEntry = mongoose.model<ILeaderboardEntry>('LeaderboardEntry', LeaderboardEntrySchema)
@@ -0,0 +1,65 @@
+import mongoose, { Schema, Document, Types } from 'mongoose'
+
+export interface IPointsTransaction extends Document {
+  userId: Types.ObjectId
+  type: 'credit' | 'debit'
+  amount: number // Signed: positive for credits, negative for debits
+  balanceAfter: number
+  reason: string
+  idempotencyKey?: string // e.g. task:<userTaskId>, referral:<referralId>:referrer
+  metadata?: any // spending/refund flags mark entries that are not "earned" points
+  createdAt: Date
+}
+
+const PointsTransactionSchema = new Schema<IPointsTransaction>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true
+    },
+    type: {
+      type: String,
+      enum: ['credit', 'debit'],
+      required: true
+    },
+    amount: {
+      type: Number,
+      required: true
+    },
+    balanceAfter: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    reason: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    idempotencyKey: {
+      type: String,
+      trim: true
+    },
+    metadata: {
+      type: Schema.Types.Mixed,
+      default: {}
+    }
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false }
+  }
+)
+
+// Ledger entries are append-only
+PointsTransactionSchema.pre(['updateOne', 'updateMany', 'findOneAndUpdate', 'deleteOne', 'deleteMany', 'findOneAndDelete'], function () {
+  throw new Error('Points transactions are immutable')
+})
+
+// Index for reading a user's history in order
+PointsTransactionSchema.index({ userId: 1, createdAt: -1 })
+// A source event can only ever produce one ledger entry
+PointsTransactionSchema.index({ idempotencyKey: 1 }, { unique: true, sparse: true })
+
+export const PointsTransaction = mongoose.model<IPointsTransaction>('PointsTransaction', PointsTransactionSchema)
@@ -0,0 +1,50 @@
+import mongoose, { Schema, Document, Types } from 'mongoose'
+
+export interface IQuest extends Document {
+  title: string
+  description?: string
+  steps: Types.ObjectId[] // Tasks in order; each step unlocks once the previous one is done
+  bonusPoints: number
+  isActive: boolean
+  createdBy?: Types.ObjectId
+  createdAt: Date
+  updatedAt: Date
+}
+
+const QuestSchema = new Schema<IQuest>(
+  {
+    title: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    description: {
+      type: String,
+      trim: true
+    },
+    steps: {
+      type: [{ type: Schema.Types.ObjectId, ref: 'Task' }],
+      required: true,
+      index: true
+    },
+    bonusPoints: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+      index: true
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'AdminUser'
+    }
+  },
+  {
+    timestamps: true
+  }
+)
+
+export const Quest = mongoose.model<IQuest>('Quest', QuestSchema)
@@ -0,0 +1,85 @@
+import mongoose, { Schema, Document, Types } from 'mongoose'
+
+export interface IRedemption extends Document {
+  userId: Types.ObjectId
+  rewardId: Types.ObjectId
+  rewardName: string // Snapshot at redemption time
+  cost: number // Snapshot at redemption time
+  status: 'pending' | 'fulfilled' | 'cancelled'
+  debitTransactionId?: Types.ObjectId
+  refundTransactionId?: Types.ObjectId
+  fulfilledAt?: Date
+  cancelledAt?: Date
+  processedBy?: Types.ObjectId
+  note?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+const RedemptionSchema = new Schema<IRedemption>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true
+    },
+    rewardId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Reward',
+      required: true,
+      index: true
+    },
+    rewardName: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    cost: {
+      type: Number,
+      required: true,
+      min: 1
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'fulfilled', 'cancelled'],
+      default: 'pending',
+      index: true
+    },
+    debitTransactionId: {
+      type: Schema.Types.ObjectId,
+      ref: 'PointsTransaction',
+      default: null
+    },
+    refundTransactionId: {
+      type: Schema.Types.ObjectId,
+      ref: 'PointsTransaction',
+      default: null
+    },
+    fulfilledAt: {
+      type: Date,
+      default: null
+    },
+    cancelledAt: {
+      type: Date,
+      default: null
+    },
+    processedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'AdminUser',
+      default: null
+    },
+    note: {
+      type: String,
+      trim: true
+    }
+  },
+  {
+    timestamps: true
+  }
+)
+
+// Index for per-user limit checks
+RedemptionSchema.index({ userId: 1, rewardId: 1, status: 1 })
+
+export const Redemption = mongoose.model<IRedemption>('Redemption', RedemptionSchema)
@@ -1,9 +1,17 @@
 import mongoose, { Schema, Document, Types } from 'mongoose'
 
+export type ReferralRiskSignal = 'shared_ip' | 'shared_fingerprint' | 'email_alias' | 'signup_timing'
+
+export interface IReferralRiskFlag {
+  signal: ReferralRiskSignal
+  detail: string
+}
+
 export interface IReferral extends Document {
   referrerId: Types.ObjectId
   referredEmail: string
   referredName?: string
+  campaignId?: Types.ObjectId | null // Influencer campaign the referral came through
   status: 'pending' | 'completed'
   emailVerified: boolean
   telegramVerified: boolean
@@ -12,10 +20,34 @@ export interface IReferral extends Document {
   allVerificationsComplete: boolean
   pointsAwarded: boolean
   completedAt?: Date
+  // Flagged referrals wait in pending_review without paying out; voiding
+  // claws back anything already paid
+  reviewStatus: 'clear' | 'pending_review' | 'approved' | 'voided'
+  riskFlags: IReferralRiskFlag[]
+  flaggedAt?: Date
+  reviewedBy?: Types.ObjectId
+  reviewedAt?: Date
+  reviewNote?: string
+  pointsClawedBack: number
   createdAt: Date
   updatedAt: Date
 }
 
+const ReferralRiskFlagSchema = new Schema<IReferralRiskFlag>(
+  {
+    signal: {
+      type: String,
+      enum: ['shared_ip', 'shared_fingerprint', 'email_alias', 'signup_timing'],
+      required: true
+    },
+    detail: {
+      type: String,
+      trim: true
+    }
+  },
+  { _id: false }
+)
+
 const ReferralSchema = new Schema<IReferral>(
   {
     referrerId: {
@@ -35,6 +67,12 @@ const ReferralSchema = new Schema<IReferral>(
       type: String,
       trim: true
     },
+    campaignId: {
+      type: Schema.Types.ObjectId,
+      ref: 'ReferralCampaign',
+      default: null,
+      index: true
+    },
     status: {
       type: String,
       enum: ['pending', 'completed'],
@@ -69,6 +107,37 @@ const ReferralSchema = new Schema<IReferral>(
     completedAt: {
       type: Date,
       default: null
+    },
+    reviewStatus: {
+      type: String,
+      enum: ['clear', 'pending_review', 'approved', 'voided'],
+      default: 'clear',
+      index: true
+    },
+    riskFlags: {
+      type: [ReferralRiskFlagSchema],
+      default: []
+    },
+    flaggedAt: {
+      type: Date,
+      default: null
+    },
+    reviewedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'AdminUser'
+    },
+    reviewedAt: {
+      type: Date,
+      default: null
+    },
+    reviewNote: {
+      type: String,
+      trim: true
+    },
+    pointsClawedBack: {
+      type: Number,
+      default: 0,
+      min: 0
     }
   },
   {
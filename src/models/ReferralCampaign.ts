@@ -0,0 +1,86 @@
+import mongoose, { Schema, Document, Types } from 'mongoose'
+
+// A marketing referral code such as SUMMER24. House campaigns only record
+// where signups came from; influencer campaigns also make the owner the
+// referrer of everyone who signs up with the code.
+export interface IReferralCampaign extends Document {
+  code: string
+  name: string
+  ownerType: 'house' | 'influencer'
+  ownerUserId?: Types.ObjectId | null
+  referrerPoints?: number | null // Overrides the referral_referrer rule
+  refereePoints?: number | null // Overrides the referral_referee rule
+  expiresAt?: Date | null
+  maxUses?: number | null // Unset means unlimited
+  useCount: number
+  isActive: boolean
+  createdBy?: Types.ObjectId
+  createdAt: Date
+  updatedAt: Date
+}
+
+const ReferralCampaignSchema = new Schema<IReferralCampaign>(
+  {
+    code: {
+      type: String,
+      required: true,
+      unique: true,
+      trim: true,
+      lowercase: true
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    ownerType: {
+      type: String,
+      enum: ['house', 'influencer'],
+      default: 'house'
+    },
+    ownerUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+      index: true
+    },
+    referrerPoints: {
+      type: Number,
+      min: 0,
+      default: null
+    },
+    refereePoints: {
+      type: Number,
+      min: 0,
+      default: null
+    },
+    expiresAt: {
+      type: Date,
+      default: null
+    },
+    maxUses: {
+      type: Number,
+      min: 1,
+      default: null
+    },
+    useCount: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+      index: true
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'AdminUser'
+    }
+  },
+  {
+    timestamps: true
+  }
+)
+
+export const ReferralCampaign = mongoose.model<IReferralCampaign>('ReferralCampaign', ReferralCampaignSchema)
@@ -0,0 +1,83 @@
+import mongoose, { Schema, Document, Types } from 'mongoose'
+
+export interface IReferralUtm {
+  source?: string
+  medium?: string
+  campaign?: string
+  term?: string
+  content?: string
+}
+
+// One visit to a referral link (/r/:code). Raw IPs are never stored.
+export interface IReferralClick extends Document {
+  code: string
+  referrerId?: Types.ObjectId | null // Owner of the tag, or of an influencer campaign
+  campaignId?: Types.ObjectId | null
+  ipHash?: string
+  userAgent?: string
+  utm: IReferralUtm
+  convertedUserId?: Types.ObjectId | null // Set when a signup consumes this click
+  convertedAt?: Date | null
+  createdAt: Date
+}
+
+const ReferralUtmSchema = new Schema<IReferralUtm>(
+  {
+    source: { type: String, trim: true },
+    medium: { type: String, trim: true },
+    campaign: { type: String, trim: true },
+    term: { type: String, trim: true },
+    content: { type: String, trim: true }
+  },
+  { _id: false }
+)
+
+const ReferralClickSchema = new Schema<IReferralClick>(
+  {
+    code: {
+      type: String,
+      required: true,
+      trim: true,
+      lowercase: true
+    },
+    referrerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+      index: true
+    },
+    campaignId: {
+      type: Schema.Types.ObjectId,
+      ref: 'ReferralCampaign',
+      default: null,
+      index: true
+    },
+    ipHash: {
+      type: String
+    },
+    userAgent: {
+      type: String,
+      trim: true
+    },
+    utm: {
+      type: ReferralUtmSchema,
+      default: {}
+    },
+    convertedUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null
+    },
+    convertedAt: {
+      type: Date,
+      default: null
+    }
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false }
+  }
+)
+
+ReferralClickSchema.index({ createdAt: -1 })
+
+export const ReferralClick = mongoose.model<IReferralClick>('ReferralClick', ReferralClickSchema)
@@ -0,0 +1,38 @@
+import mongoose, { Schema, Document } from 'mongoose'
+
+// Rewards for ancestors above the direct referrer when a referral completes.
+// Level 1 is the direct referrer and is paid by the referral_referrer rule;
+// this table starts at level 2. No rows means only the direct referrer earns.
+export interface IReferralLevel extends Document {
+  level: number
+  points: number
+  maxPoints?: number | null // Most one ancestor can earn from this level in total
+  createdAt: Date
+  updatedAt: Date
+}
+
+const ReferralLevelSchema = new Schema<IReferralLevel>(
+  {
+    level: {
+      type: Number,
+      required: true,
+      unique: true,
+      min: 2
+    },
+    points: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    maxPoints: {
+      type: Number,
+      min: 0,
+      default: null
+    }
+  },
+  {
+    timestamps: true
+  }
+)
+
+export const ReferralLevel = mongoose.model<IReferralLevel>('ReferralLevel', ReferralLevelSchema)
@@ -0,0 +1,39 @@
+import mongoose, { Schema, Document, Types } from 'mongoose'
+
+// Points one ancestor has earned from a capped referral level. Awards are
+// reserved here with a conditional update first, so concurrent referrals
+// cannot take an ancestor past the level's maxPoints.
+export interface IReferralLevelEarning extends Document {
+  userId: Types.ObjectId
+  level: number
+  points: number
+  createdAt: Date
+  updatedAt: Date
+}
+
+const ReferralLevelEarningSchema = new Schema<IReferralLevelEarning>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    level: {
+      type: Number,
+      required: true,
+      min: 2
+    },
+    points: {
+      type: Number,
+      default: 0,
+      min: 0
+    }
+  },
+  {
+    timestamps: true
+  }
+)
+
+ReferralLevelEarningSchema.index({ userId: 1, level: 1 }, { unique: true })
+
+export const ReferralLevelEarning = mongoose.model<IReferralLevelEarning>('ReferralLevelEarning', ReferralLevelEarningSchema)
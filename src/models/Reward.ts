@@ -0,0 +1,71 @@
+import mongoose, { Schema, Document, Types } from 'mongoose'
+
+export interface IReward extends Document {
+  name: string
+  description?: string
+  imageUrl?: string
+  cost: number
+  stock?: number | null // null means unlimited
+  perUserLimit?: number | null // null means unlimited
+  startsAt?: Date | null
+  endsAt?: Date | null
+  isActive: boolean
+  createdBy?: Types.ObjectId
+  createdAt: Date
+  updatedAt: Date
+}
+
+const RewardSchema = new Schema<IReward>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    description: {
+      type: String,
+      trim: true
+    },
+    imageUrl: {
+      type: String,
+      trim: true
+    },
+    cost: {
+      type: Number,
+      required: true,
+      min: 1
+    },
+    stock: {
+      type: Number,
+      default: null,
+      min: 0
+    },
+    perUserLimit: {
+      type: Number,
+      default: null,
+      min: 1
+    },
+    startsAt: {
+      type: Date,
+      default: null
+    },
+    endsAt: {
+      type: Date,
+      default: null
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+      index: true
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'AdminUser'
+    }
+  },
+  {
+    timestamps: true
+  }
+)
+
+export const Reward = mongoose.model<IReward>('Reward', RewardSchema)
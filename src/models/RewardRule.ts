@@ -0,0 +1,54 @@
+import mongoose, { Schema, Document, Types } from 'mongoose'
+
+// Each change to a rule is stored as a new version; the highest version for
+// a key is the one in effect. Old versions are kept so that awards recorded
+// with a version number stay explainable.
+export interface IRewardRule extends Document {
+  key: string
+  version: number
+  points: number
+  schedule?: number[] // Optional escalating amounts, see getScheduledPoints
+  description?: string
+  updatedBy?: Types.ObjectId
+  createdAt: Date
+}
+
+const RewardRuleSchema = new Schema<IRewardRule>(
+  {
+    key: {
+      type: String,
+      required: true,
+      trim: true,
+      index: true
+    },
+    version: {
+      type: Number,
+      required: true,
+      min: 1
+    },
+    points: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    schedule: {
+      type: [Number],
+      default: undefined
+    },
+    description: {
+      type: String,
+      trim: true
+    },
+    updatedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'AdminUser'
+    }
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false }
+  }
+)
+
+RewardRuleSchema.index({ key: 1, version: -1 }, { unique: true })
+
+export const RewardRule = mongoose.model<IRewardRule>('RewardRule', RewardRuleSchema)
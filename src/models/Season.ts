@@ -0,0 +1,67 @@
+import mongoose, { Schema, Document, Types } from 'mongoose'
+
+export interface ISeason extends Document {
+  name: string
+  description?: string
+  startsAt: Date
+  endsAt: Date
+  status: 'active' | 'closed'
+  closedAt?: Date
+  closedBy?: Types.ObjectId
+  participants: number // Number of archived standings, set on close
+  createdBy?: Types.ObjectId
+  createdAt: Date
+  updatedAt: Date
+}
+
+const SeasonSchema = new Schema<ISeason>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    description: {
+      type: String,
+      trim: true
+    },
+    startsAt: {
+      type: Date,
+      required: true
+    },
+    endsAt: {
+      type: Date,
+      required: true
+    },
+    status: {
+      type: String,
+      enum: ['active', 'closed'],
+      default: 'active',
+      index: true
+    },
+    closedAt: {
+      type: Date,
+      default: null
+    },
+    closedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'AdminUser',
+      default: null
+    },
+    participants: {
+      type: Number,
+      default: 0
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'AdminUser'
+    }
+  },
+  {
+    timestamps: true
+  }
+)
+
+SeasonSchema.index({ status: 1, startsAt: 1 })
+
+export const Season = mongoose.model<ISeason>('Season', SeasonSchema)
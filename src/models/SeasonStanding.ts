@@ -0,0 +1,53 @@
+import mongoose, { Schema, Document, Types } from 'mongoose'
+
+// Final standings archived when a season is closed
+export interface ISeasonStanding extends Document {
+  seasonId: Types.ObjectId
+  userId: Types.ObjectId
+  rank: number
+  score: number
+  displayName: string
+  createdAt: Date
+}
+
+const SeasonStandingSchema = new Schema<ISeasonStanding>(
+  {
+    seasonId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Season',
+      required: true
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true
+    },
+    rank: {
+      type: Number,
+      required: true,
+      min: 1
+    },
+    score: {
+      type: Number,
+      required: true
+    },
+    displayName: {
+      type: String,
+      required: true
+    }
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false }
+  }
+)
+
+// Archived standings are immutable
+SeasonStandingSchema.pre(['updateOne', 'updateMany', 'findOneAndUpdate', 'deleteOne', 'deleteMany', 'findOneAndDelete'], function () {
+  throw new Error('Season standings are immutable')
+})
+
+SeasonStandingSchema.index({ seasonId: 1, rank: 1 })
+SeasonStandingSchema.index({ seasonId: 1, userId: 1 }, { unique: true })
+
+export const SeasonStanding = mongoose.model<ISeasonStanding>('SeasonStanding', SeasonStandingSchema)
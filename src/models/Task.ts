@@ -1,20 +1,124 @@
 import mongoose, { Schema, Document, Types } from 'mongoose'
 
+export interface IQuizQuestion {
+  prompt: string
+  options: string[]
+  correctOptions: number[] // Indexes into options; never sent to users
+}
+
+export interface IQuiz {
+  questions: IQuizQuestion[]
+  passPercent: number
+  maxAttempts: number
+}
+
+// Who a task is shown to. Every rule that is set must match; an empty
+// audience targets everyone.
+export interface ITaskAudience {
+  interests: string[] // User needs at least one of these
+  signedUpAfter?: Date | null
+  signedUpBefore?: Date | null
+  referred?: boolean | null // Signed up with a referral code or without one
+  emailVerified?: boolean | null
+  userIds: Types.ObjectId[] // Explicit allowlist
+}
+
 export interface ITask extends Document {
   title: string
   description?: string
-  taskType: 'follow_telegram' | 'follow_x' | 'join_discord' | 'follow_instagram' | 'like_post' | 'retweet' | 'custom'
+  taskType: 'follow_telegram' | 'follow_x' | 'join_discord' | 'follow_instagram' | 'like_post' | 'retweet' | 'quiz' | 'custom'
   actionUrl?: string
   pointsReward: number
   isActive: boolean
   requiresVerification: boolean
   verificationMethod?: string
+  minTier?: string // Tier key required to see and complete the task
+  startsAt?: Date
+  endsAt?: Date
+  maxCompletions?: number // Across all users; unset means unlimited
+  completionCount: number
+  repeatPolicy: 'retry_on_rejection' | 'single_attempt'
+  recurrence: 'none' | 'daily' | 'weekly'
+  prerequisites: Types.ObjectId[] // Tasks that must be completed first
+  quiz?: IQuiz // Only for taskType 'quiz'
+  duplicateLinkPolicy: 'allow' | 'flag' | 'block' // When another account already submitted the same link
+  audience?: ITaskAudience | null
   metadata?: any
   createdBy?: Types.ObjectId
   createdAt: Date
   updatedAt: Date
 }
 
+const QuizQuestionSchema = new Schema<IQuizQuestion>(
+  {
+    prompt: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    options: {
+      type: [String],
+      required: true
+    },
+    correctOptions: {
+      type: [Number],
+      required: true
+    }
+  },
+  { _id: false }
+)
+
+const QuizSchema = new Schema<IQuiz>(
+  {
+    questions: {
+      type: [QuizQuestionSchema],
+      required: true
+    },
+    passPercent: {
+      type: Number,
+      min: 1,
+      max: 100,
+      default: 100
+    },
+    maxAttempts: {
+      type: Number,
+      min: 1,
+      default: 3
+    }
+  },
+  { _id: false }
+)
+
+const TaskAudienceSchema = new Schema<ITaskAudience>(
+  {
+    interests: {
+      type: [String],
+      default: []
+    },
+    signedUpAfter: {
+      type: Date,
+      default: null
+    },
+    signedUpBefore: {
+      type: Date,
+      default: null
+    },
+    referred: {
+      type: Boolean,
+      default: null
+    },
+    emailVerified: {
+      type: Boolean,
+      default: null
+    },
+    userIds: {
+      type: [{ type: Schema.Types.ObjectId, ref: 'User' }],
+      default: []
+    }
+  },
+  { _id: false }
+)
+
 const TaskSchema = new Schema<ITask>(
   {
     title: {
@@ -28,7 +132,7 @@ const TaskSchema = new Schema<ITask>(
     },
     taskType: {
       type: String,
-      enum: ['follow_telegram', 'follow_x', 'join_discord', 'follow_instagram', 'like_post', 'retweet', 'custom'],
+      enum: ['follow_telegram', 'follow_x', 'join_discord', 'follow_instagram', 'like_post', 'retweet', 'quiz', 'custom'],
       required: true,
       index: true
     },
@@ -54,6 +158,57 @@ const TaskSchema = new Schema<ITask>(
       type: String,
       trim: true
     },
+    minTier: {
+      type: String,
+      trim: true,
+      lowercase: true,
+      default: null
+    },
+    startsAt: {
+      type: Date,
+      default: null
+    },
+    endsAt: {
+      type: Date,
+      default: null
+    },
+    maxCompletions: {
+      type: Number,
+      min: 1,
+      default: null
+    },
+    completionCount: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    repeatPolicy: {
+      type: String,
+      enum: ['retry_on_rejection', 'single_attempt'],
+      default: 'retry_on_rejection'
+    },
+    recurrence: {
+      type: String,
+      enum: ['none', 'daily', 'weekly'],
+      default: 'none'
+    },
+    prerequisites: {
+      type: [{ type: Schema.Types.ObjectId, ref: 'Task' }],
+      default: []
+    },
+    quiz: {
+      type: QuizSchema,
+      default: null
+    },
+    duplicateLinkPolicy: {
+      type: String,
+      enum: ['allow', 'flag', 'block'],
+      default: 'flag'
+    },
+    audience: {
+      type: TaskAudienceSchema,
+      default: null
+    },
     metadata: {
       type: Schema.Types.Mixed,
       default: {}
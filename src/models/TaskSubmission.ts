@@ -0,0 +1,150 @@
+import mongoose, { Schema, Document, Types } from 'mongoose'
+
+export interface ISubmissionAppeal {
+  note: string
+  filedAt: Date
+  decision?: 'approved' | 'rejected' | null
+  decidedBy?: Types.ObjectId | null
+  decidedAt?: Date | null
+  reason?: string | null
+}
+
+// One row per submission attempt. UserTask holds the current state of a
+// task for a period; these rows keep every attempt and how it was decided.
+export interface ITaskSubmission extends Document {
+  userTaskId: Types.ObjectId
+  userId: Types.ObjectId
+  taskId: Types.ObjectId
+  periodKey: string
+  attempt: number
+  submissionLink?: string
+  normalizedLink?: string
+  submittedAt: Date
+  decision?: 'approved' | 'rejected' | null // null while waiting for review
+  decidedBy?: Types.ObjectId | null // null for automatic decisions
+  decidedAt?: Date | null
+  automatic: boolean
+  reason?: string | null
+  verification?: any
+  appeal?: ISubmissionAppeal | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+const SubmissionAppealSchema = new Schema<ISubmissionAppeal>(
+  {
+    note: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    filedAt: {
+      type: Date,
+      required: true
+    },
+    decision: {
+      type: String,
+      enum: ['approved', 'rejected', null],
+      default: null
+    },
+    decidedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'AdminUser',
+      default: null
+    },
+    decidedAt: {
+      type: Date,
+      default: null
+    },
+    reason: {
+      type: String,
+      trim: true,
+      default: null
+    }
+  },
+  { _id: false }
+)
+
+const TaskSubmissionSchema = new Schema<ITaskSubmission>(
+  {
+    userTaskId: {
+      type: Schema.Types.ObjectId,
+      ref: 'UserTask',
+      required: true,
+      index: true
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true
+    },
+    taskId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Task',
+      required: true,
+      index: true
+    },
+    periodKey: {
+      type: String,
+      required: true
+    },
+    attempt: {
+      type: Number,
+      required: true,
+      min: 1
+    },
+    submissionLink: {
+      type: String,
+      trim: true,
+      default: null
+    },
+    normalizedLink: {
+      type: String,
+      default: null
+    },
+    submittedAt: {
+      type: Date,
+      required: true
+    },
+    decision: {
+      type: String,
+      enum: ['approved', 'rejected', null],
+      default: null
+    },
+    decidedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'AdminUser',
+      default: null
+    },
+    decidedAt: {
+      type: Date,
+      default: null
+    },
+    automatic: {
+      type: Boolean,
+      default: false
+    },
+    reason: {
+      type: String,
+      trim: true,
+      default: null
+    },
+    verification: {
+      type: Schema.Types.Mixed,
+      default: null
+    },
+    appeal: {
+      type: SubmissionAppealSchema,
+      default: null
+    }
+  },
+  {
+    timestamps: true
+  }
+)
+
+TaskSubmissionSchema.index({ userTaskId: 1, attempt: 1 }, { unique: true })
+TaskSubmissionSchema.index({ taskId: 1, normalizedLink: 1 })
+
+export const TaskSubmission = mongoose.model<ITaskSubmission>('TaskSubmission', TaskSubmissionSchema)
@@ -0,0 +1,38 @@
+import mongoose, { Schema, Document, Types } from 'mongoose'
+
+export interface ITaskTemplate extends Document {
+  name: string
+  description?: string
+  tasks: Record<string, any>[] // Task definitions in the same shape as POST /api/tasks
+  createdBy?: Types.ObjectId
+  createdAt: Date
+  updatedAt: Date
+}
+
+const TaskTemplateSchema = new Schema<ITaskTemplate>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      unique: true
+    },
+    description: {
+      type: String,
+      trim: true
+    },
+    tasks: {
+      type: Schema.Types.Mixed,
+      required: true
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'AdminUser'
+    }
+  },
+  {
+    timestamps: true
+  }
+)
+
+export const TaskTemplate = mongoose.model<ITaskTemplate>('TaskTemplate', TaskTemplateSchema)
@@ -0,0 +1,46 @@
+import mongoose, { Schema, Document } from 'mongoose'
+
+export interface ITier extends Document {
+  key: string
+  name: string
+  minPoints: number // Lifetime points needed to reach this tier
+  perks: string[]
+  notifyByEmail: boolean // Email users when they are promoted into this tier
+  createdAt: Date
+  updatedAt: Date
+}
+
+const TierSchema = new Schema<ITier>(
+  {
+    key: {
+      type: String,
+      required: true,
+      unique: true,
+      trim: true,
+      lowercase: true
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true
+    },
+    minPoints: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    perks: {
+      type: [String],
+      default: []
+    },
+    notifyByEmail: {
+      type: Boolean,
+      default: true
+    }
+  },
+  {
+    timestamps: true
+  }
+)
+
+export const Tier = mongoose.model<ITier>('Tier', TierSchema)
@@ -14,17 +14,24 @@ export interface IUser extends Document {
   passwordResetExpires?: Date
   renopaysTag?: string
   points: number
+  lifetimePoints: number // Total points ever earned; spending does not reduce it, clawbacks do
+  tier?: string // Key of the tier reached with lifetimePoints
   telegramVerified: boolean
   telegramUsername?: string
   telegramId?: string
   referredBy?: string // renopaysTag of the referrer (for backward compatibility)
   referredByUserId?: mongoose.Types.ObjectId // User ID of the referrer (for accurate tracking)
   referralCode?: string // User's own referral code (same as renopaysTag)
+  campaignId?: mongoose.Types.ObjectId // ReferralCampaign whose code the user signed up with
   telegramFollowed: boolean // Whether user follows Telegram channel
   successfulReferrals: number // Count of successful referrals
   banned: boolean // Whether user is banned
   banReason?: string // Reason for ban
   bannedUntil?: Date // Ban expiration date
+  currentStreak: number // Consecutive daily check-ins
+  longestStreak: number
+  lastCheckInDate?: string // YYYY-MM-DD in the check-in timezone
+  streakFreezes: number // Purchased freezes that cover a missed day
   createdAt: Date
   updatedAt: Date
 }
@@ -97,6 +104,16 @@ const UserSchema = new Schema<IUser>(
       default: 0,
       min: 0
     },
+    lifetimePoints: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    tier: {
+      type: String,
+      default: null,
+      index: true
+    },
     telegramVerified: {
       type: Boolean,
       default: false
@@ -126,6 +143,12 @@ const UserSchema = new Schema<IUser>(
       lowercase: true,
       sparse: true
     },
+    campaignId: {
+      type: Schema.Types.ObjectId,
+      ref: 'ReferralCampaign',
+      default: null,
+      index: true
+    },
     telegramFollowed: {
       type: Boolean,
       default: false
@@ -147,6 +170,25 @@ const UserSchema = new Schema<IUser>(
     bannedUntil: {
       type: Date,
       default: null
+    },
+    currentStreak: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    longestStreak: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    lastCheckInDate: {
+      type: String,
+      default: null
+    },
+    streakFreezes: {
+      type: Number,
+      default: 0,
+      min: 0
     }
   },
   {
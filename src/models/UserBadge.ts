@@ -0,0 +1,42 @@
+import mongoose, { Schema, Document, Types } from 'mongoose'
+
+export interface IUserBadge extends Document {
+  userId: Types.ObjectId
+  badgeId: Types.ObjectId
+  trigger?: string // Event that caused the grant
+  bonusPointsAwarded: number
+  createdAt: Date
+}
+
+const UserBadgeSchema = new Schema<IUserBadge>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true
+    },
+    badgeId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Badge',
+      required: true,
+      index: true
+    },
+    trigger: {
+      type: String,
+      trim: true
+    },
+    bonusPointsAwarded: {
+      type: Number,
+      default: 0
+    }
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false }
+  }
+)
+
+// A badge is earned at most once per user
+UserBadgeSchema.index({ userId: 1, badgeId: 1 }, { unique: true })
+
+export const UserBadge = mongoose.model<IUserBadge>('UserBadge', UserBadgeSchema)
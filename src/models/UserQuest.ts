@@ -0,0 +1,37 @@
+import mongoose, { Schema, Document, Types } from 'mongoose'
+
+export interface IUserQuest extends Document {
+  userId: Types.ObjectId
+  questId: Types.ObjectId
+  bonusPointsAwarded: number
+  createdAt: Date
+}
+
+const UserQuestSchema = new Schema<IUserQuest>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true
+    },
+    questId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Quest',
+      required: true,
+      index: true
+    },
+    bonusPointsAwarded: {
+      type: Number,
+      default: 0
+    }
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false }
+  }
+)
+
+// A quest is completed (and its bonus paid) at most once per user
+UserQuestSchema.index({ userId: 1, questId: 1 }, { unique: true })
+
+export const UserQuest = mongoose.model<IUserQuest>('UserQuest', UserQuestSchema)
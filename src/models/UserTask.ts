@@ -3,14 +3,20 @@ import mongoose, { Schema, Document, Types } from 'mongoose'
 export interface IUserTask extends Document {
   userId: Types.ObjectId
   taskId: Types.ObjectId
-  status: 'pending' | 'submitted' | 'approved' | 'rejected' | 'completed'
+  periodKey: string // 'once' for one-time tasks, otherwise the date the period starts (YYYY-MM-DD)
+  status: 'pending' | 'submitted' | 'approved' | 'rejected' | 'appealed' | 'completed'
   completedAt?: Date
   verifiedAt?: Date
   submittedAt?: Date
   reviewedAt?: Date
   reviewedBy?: Types.ObjectId
+  claimedBy?: Types.ObjectId // Reviewer holding the submission until claimExpiresAt
+  claimExpiresAt?: Date
   submissionLink?: string
+  normalizedLink?: string // Canonical submissionLink used to find reused links
+  duplicateLink: boolean // Another account submitted the same link for this task
   verificationData?: any
+  verifierAttempts: number // Automatic checks used this period, for verifiers with an attempt limit
   rejectionReason?: string
   pointsAwarded: boolean
   createdAt: Date
@@ -31,9 +37,14 @@ const UserTaskSchema = new Schema<IUserTask>(
       required: true,
       index: true
     },
+    periodKey: {
+      type: String,
+      required: true,
+      default: 'once'
+    },
     status: {
       type: String,
-      enum: ['pending', 'submitted', 'approved', 'rejected', 'completed'],
+      enum: ['pending', 'submitted', 'approved', 'rejected', 'appealed', 'completed'],
       default: 'pending',
       index: true
     },
@@ -58,15 +69,37 @@ const UserTaskSchema = new Schema<IUserTask>(
       ref: 'AdminUser',
       default: null
     },
+    claimedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'AdminUser',
+      default: null
+    },
+    claimExpiresAt: {
+      type: Date,
+      default: null
+    },
     submissionLink: {
       type: String,
       trim: true,
       default: null
     },
+    normalizedLink: {
+      type: String,
+      default: null
+    },
+    duplicateLink: {
+      type: Boolean,
+      default: false
+    },
     verificationData: {
       type: Schema.Types.Mixed,
       default: {}
     },
+    verifierAttempts: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
     rejectionReason: {
       type: String,
       trim: true,
@@ -82,8 +115,9 @@ const UserTaskSchema = new Schema<IUserTask>(
   }
 )
 
-// Compound index for unique user-task combination
-UserTaskSchema.index({ userId: 1, taskId: 1 }, { unique: true })
+// One record per user, task and period (recurring tasks get a new period each day/week)
+UserTaskSchema.index({ userId: 1, taskId: 1, periodKey: 1 }, { unique: true })
+UserTaskSchema.index({ taskId: 1, normalizedLink: 1 })
 // Index for querying by user and status
 UserTaskSchema.index({ userId: 1, status: 1 })
 
@@ -1,4 +1,5 @@
 import express from 'express'
+import mongoose from 'mongoose'
 import { authenticate, requireAdmin, requirePermission, AuthRequest } from '../middleware/auth.js'
 import { auditLog } from '../middleware/auditLog.js'
 import { User } from '../models/User.js'
@@ -7,7 +8,23 @@ import { Task } from '../models/Task.js'
 import { UserTask } from '../models/UserTask.js'
 import { OnboardingEvent } from '../models/OnboardingEvent.js'
 import { AuditLog } from '../models/AuditLog.js'
+import { Reward } from '../models/Reward.js'
+import { Redemption } from '../models/Redemption.js'
+import { RewardRule } from '../models/RewardRule.js'
+import { Season } from '../models/Season.js'
+import { Badge } from '../models/Badge.js'
+import { Quest } from '../models/Quest.js'
+import { ReferralCampaign } from '../models/ReferralCampaign.js'
 import { emailService } from '../services/emailService.js'
+import { seasonService, SeasonError } from '../services/seasonService.js'
+import { achievementService } from '../services/achievementService.js'
+import { tierService, TierError } from '../services/tierService.js'
+import { taskService } from '../services/taskService.js'
+import { referralService, ReferralError, MAX_REFERRAL_LEVEL } from '../services/referralService.js'
+import { campaignService } from '../services/campaignService.js'
+import { referralClickService } from '../services/referralClickService.js'
+import { awardPoints, deductPoints, getPointsHistory } from '../utils/pointsManager.js'
+import { getAllRewardRules, getRewardRule, updateRewardRule, isRewardRuleKey } from '../utils/rewardRules.js'
 import { logInfo, logWarn } from '../utils/logger.js'
 import { z } from 'zod'
 
@@ -119,6 +136,7 @@ router.patch('/users/:userId/status', auditLog('user_status_update', 'user'), re
       eventType: 'status_updated',
       eventData: { status, onboardingStep, updatedBy: req.user?.email },
     })
+    achievementService.handleEvent(userId, 'status_updated')
 
     // Send email notification if status changed to onboarded
     if (status === 'onboarded') {
@@ -242,6 +260,116 @@ router.post('/users/:userId/unban', auditLog('user_unbanned', 'user'), requirePe
   }
 })
 
+router.get('/users/:userId/points/history', requirePermission('users', 'read'), async (req: AuthRequest, res, next) => {
+  try {
+    const { userId } = req.params
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200)
+
+    const user = await User.findById(userId).select('email points')
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found',
+      })
+    }
+
+    const history = await getPointsHistory(user.email, limit)
+
+    res.json({
+      success: true,
+      data: {
+        points: user.points || 0,
+        history,
+      },
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Manually adjust a user's points balance
+const adjustPointsSchema = z.object({
+  amount: z.number().int().refine((value) => value !== 0, 'Amount must not be zero'),
+  reason: z.string().trim().min(3).max(500),
+  // Generated by the client once per adjustment, so a retry is not applied twice
+  requestId: z.string().trim().min(8).max(100),
+})
+
+router.post('/users/:userId/points', auditLog('points_adjusted', 'user'), requirePermission('points', 'adjust'), async (req: AuthRequest, res, next) => {
+  try {
+    const { userId } = req.params
+    const { amount, reason, requestId } = adjustPointsSchema.parse(req.body)
+
+    const user = await User.findById(userId).select('email')
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found',
+      })
+    }
+
+    // Corrections change the balance but are not earned, so lifetime points
+    // and tiers are left alone
+    const metadata = { adjustment: true, reason, adjustedBy: req.user?.email }
+    const idempotencyKey = `adjustment:${requestId}`
+    const result = amount > 0
+      ? await awardPoints(userId, amount, `Admin adjustment: ${reason}`, metadata, idempotencyKey)
+      : await deductPoints(userId, -amount, `Admin adjustment: ${reason}`, metadata, idempotencyKey)
+
+    if (!result.success) {
+      return res.status(400).json({
+        success: false,
+        message: result.error || 'Failed to adjust points',
+      })
+    }
+
+    if (result.duplicate) {
+      return res.json({
+        success: true,
+        message: 'Adjustment already applied',
+        data: {
+          amount,
+          balanceAfter: result.newBalance,
+          transactionId: result.transactionId,
+          duplicate: true,
+        },
+      })
+    }
+
+    const balanceBefore = result.newBalance - amount
+    res.locals.auditDetails = {
+      amount,
+      reason,
+      balanceBefore,
+      balanceAfter: result.newBalance,
+      transactionId: result.transactionId,
+    }
+
+    logWarn('User points adjusted', {
+      userId,
+      email: user.email,
+      amount,
+      reason,
+      balanceBefore,
+      balanceAfter: result.newBalance,
+      adjustedBy: req.user?.email,
+    })
+
+    res.json({
+      success: true,
+      message: 'Points adjusted successfully',
+      data: {
+        amount,
+        balanceBefore,
+        balanceAfter: result.newBalance,
+        transactionId: result.transactionId,
+      },
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
 // Delete user
 router.delete('/users/:userId', auditLog('user_deleted', 'user'), requirePermission('users', 'delete'), async (req: AuthRequest, res, next) => {
   try {
@@ -685,4 +813,1056 @@ router.get('/audit-logs', requirePermission('analytics', 'read'), async (req: Au
   }
 })
 
+// Rewards catalog
+const rewardSchema = z.object({
+  name: z.string().min(1).max(255),
+  description: z.string().optional(),
+  imageUrl: z.string().url().optional(),
+  cost: z.number().int().min(1),
+  stock: z.number().int().min(0).nullable().optional(),
+  perUserLimit: z.number().int().min(1).nullable().optional(),
+  startsAt: z.string().datetime().nullable().optional(),
+  endsAt: z.string().datetime().nullable().optional(),
+  isActive: z.boolean().default(true),
+})
+
+const updateRewardSchema = rewardSchema.partial()
+
+router.get('/rewards', requirePermission('rewards', 'read'), async (req: AuthRequest, res, next) => {
+  try {
+    const rewards = await Reward.find().sort({ createdAt: -1 })
+
+    res.json({
+      success: true,
+      data: {
+        rewards,
+      },
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+router.post('/rewards', auditLog('reward_created', 'reward'), requirePermission('rewards', 'write'), async (req: AuthRequest, res, next) => {
+  try {
+    const validatedData = rewardSchema.parse(req.body)
+
+    const reward = await Reward.create({
+      ...validatedData,
+      startsAt: validatedData.startsAt ? new Date(validatedData.startsAt) : null,
+      endsAt: validatedData.endsAt ? new Date(validatedData.endsAt) : null,
+      createdBy: req.user?.id,
+    })
+
+    logInfo('Reward created', { rewardId: String(reward._id), createdBy: req.user?.email })
+
+    res.status(201).json({
+      success: true,
+      data: reward,
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+router.patch('/rewards/:rewardId', auditLog('reward_updated', 'reward'), requirePermission('rewards', 'write'), async (req: AuthRequest, res, next) => {
+  try {
+    const { rewardId } = req.params
+    const validatedData = updateRewardSchema.parse(req.body)
+
+    const updateData: any = { ...validatedData }
+    if (validatedData.startsAt !== undefined) {
+      updateData.startsAt = validatedData.startsAt ? new Date(validatedData.startsAt) : null
+    }
+    if (validatedData.endsAt !== undefined) {
+      updateData.endsAt = validatedData.endsAt ? new Date(validatedData.endsAt) : null
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'No fields to update',
+      })
+    }
+
+    const reward = await Reward.findByIdAndUpdate(rewardId, updateData, { new: true })
+
+    if (!reward) {
+      return res.status(404).json({
+        success: false,
+        message: 'Reward not found',
+      })
+    }
+
+    logInfo('Reward updated', { rewardId, updatedBy: req.user?.email })
+
+    res.json({
+      success: true,
+      data: reward,
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+router.get('/rewards/redemptions', requirePermission('rewards', 'read'), async (req: AuthRequest, res, next) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1
+    const limit = parseInt(req.query.limit as string) || 50
+    const status = req.query.status as string
+    const skip = (page - 1) * limit
+
+    const filter: any = {}
+    if (status) {
+      filter.status = status
+    }
+
+    const redemptions = await Redemption.find(filter)
+      .populate('userId', 'email name renopaysTag')
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(limit)
+      .lean()
+
+    const total = await Redemption.countDocuments(filter)
+
+    res.json({
+      success: true,
+      data: {
+        redemptions,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      },
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+const processRedemptionSchema = z.object({
+  note: z.string().max(500).optional(),
+})
+
+router.post('/rewards/redemptions/:redemptionId/fulfill', auditLog('redemption_fulfilled', 'redemption'), requirePermission('rewards', 'write'), async (req: AuthRequest, res, next) => {
+  try {
+    const { redemptionId } = req.params
+    const { note } = processRedemptionSchema.parse(req.body)
+
+    const redemption = await Redemption.findOneAndUpdate(
+      { _id: redemptionId, status: 'pending' },
+      {
+        status: 'fulfilled',
+        fulfilledAt: new Date(),
+        processedBy: req.user?.id,
+        ...(note && { note }),
+      },
+      { new: true }
+    )
+
+    if (!redemption) {
+      return res.status(400).json({
+        success: false,
+        message: 'Redemption not found or not pending',
+      })
+    }
+
+    logInfo('Redemption fulfilled', { redemptionId, fulfilledBy: req.user?.email })
+
+    res.json({
+      success: true,
+      message: 'Redemption fulfilled',
+      data: redemption,
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+router.post('/rewards/redemptions/:redemptionId/cancel', auditLog('redemption_cancelled', 'redemption'), requirePermission('rewards', 'write'), async (req: AuthRequest, res, next) => {
+  try {
+    const { redemptionId } = req.params
+    const { note } = processRedemptionSchema.parse(req.body)
+
+    // Claim the redemption first so two admins cannot refund it twice
+    const redemption = await Redemption.findOneAndUpdate(
+      { _id: redemptionId, status: 'pending' },
+      {
+        status: 'cancelled',
+        cancelledAt: new Date(),
+        processedBy: req.user?.id,
+        ...(note && { note }),
+      },
+      { new: true }
+    )
+
+    if (!redemption) {
+      return res.status(400).json({
+        success: false,
+        message: 'Redemption not found or not pending',
+      })
+    }
+
+    const refundResult = await awardPoints(
+      redemption.userId.toString(),
+      redemption.cost,
+      `Redemption refunded: ${redemption.rewardName}`,
+      { rewardId: redemption.rewardId.toString(), redemptionId, refund: true },
+      `redemption:${redemptionId}:refund`
+    )
+
+    if (refundResult.success) {
+      redemption.refundTransactionId = refundResult.transactionId as any
+      await redemption.save()
+    } else {
+      logWarn('Failed to refund cancelled redemption', { redemptionId, error: refundResult.error })
+    }
+
+    // Return the reserved unit to stock
+    await Reward.updateOne(
+      { _id: redemption.rewardId, stock: { $ne: null } },
+      { $inc: { stock: 1 } }
+    )
+
+    logInfo('Redemption cancelled', { redemptionId, cancelledBy: req.user?.email })
+
+    res.json({
+      success: true,
+      message: refundResult.success ? 'Redemption cancelled and points refunded' : 'Redemption cancelled, but the refund failed',
+      data: redemption,
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Reward rules (point amounts used by the award sites)
+router.get('/reward-rules', requirePermission('settings', 'read'), async (req: AuthRequest, res, next) => {
+  try {
+    const rules = await getAllRewardRules()
+
+    res.json({
+      success: true,
+      data: {
+        rules,
+      },
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+router.get('/reward-rules/:key/history', requirePermission('settings', 'read'), async (req: AuthRequest, res, next) => {
+  try {
+    const { key } = req.params
+
+    if (!isRewardRuleKey(key)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Reward rule not found',
+      })
+    }
+
+    const versions = await RewardRule.find({ key })
+      .populate('updatedBy', 'email')
+      .sort({ version: -1 })
+      .lean()
+
+    res.json({
+      success: true,
+      data: {
+        versions,
+      },
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+const updateRewardRuleSchema = z.object({
+  points: z.number().int().min(0),
+  // An empty list turns an escalating rule into a flat one
+  schedule: z.array(z.number().int().min(0)).max(365).optional(),
+  description: z.string().max(500).optional(),
+})
+
+router.put('/reward-rules/:key', auditLog('reward_rule_updated', 'reward_rule'), requirePermission('settings', 'write'), async (req: AuthRequest, res, next) => {
+  try {
+    const { key } = req.params
+    const { points, schedule, description } = updateRewardRuleSchema.parse(req.body)
+
+    if (!isRewardRuleKey(key)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Reward rule not found',
+      })
+    }
+
+    const rule = await updateRewardRule(key, points, req.user?.id, description, schedule)
+
+    logInfo('Reward rule changed by admin', { key, points, version: rule.version, updatedBy: req.user?.email })
+
+    res.json({
+      success: true,
+      data: rule,
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Tiers
+router.get('/tiers', requirePermission('settings', 'read'), async (req: AuthRequest, res, next) => {
+  try {
+    const tiers = await tierService.getTiers()
+
+    res.json({
+      success: true,
+      data: {
+        tiers,
+      },
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+const tierSchema = z.object({
+  key: z.string().min(1).max(50).regex(/^[a-z0-9_]+$/),
+  name: z.string().min(1).max(100),
+  minPoints: z.number().int().min(0),
+  perks: z.array(z.string().max(255)).default([]),
+  notifyByEmail: z.boolean().default(true),
+})
+
+// Replaces the whole tier table; users move on their next points award
+router.put('/tiers', auditLog('tiers_updated', 'tier'), requirePermission('settings', 'write'), async (req: AuthRequest, res, next) => {
+  try {
+    const tiers = z.array(tierSchema).min(1).max(20).parse(req.body)
+
+    const saved = await tierService.replaceTiers(tiers)
+
+    logInfo('Tier table changed by admin', { tiers: saved.length, updatedBy: req.user?.email })
+
+    res.json({
+      success: true,
+      data: {
+        tiers: saved,
+      },
+    })
+  } catch (error) {
+    if (error instanceof TierError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      })
+    }
+    next(error)
+  }
+})
+
+// Referral review queue: referrals flagged by the risk analyzer hold their
+// points until approved; voiding claws back anything already paid
+router.get('/referrals/review', requirePermission('points', 'read'), async (req: AuthRequest, res, next) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100)
+    const status = (req.query.status as string) || 'pending_review'
+    const skip = (page - 1) * limit
+
+    const filter: any = { reviewStatus: status }
+    if (req.query.signal) {
+      filter['riskFlags.signal'] = req.query.signal
+    }
+
+    const referrals = await Referral.find(filter)
+      .sort({ flaggedAt: 1, createdAt: 1 })
+      .skip(skip)
+      .limit(limit)
+      .populate('referrerId', 'email name renopaysTag createdAt')
+      .populate('reviewedBy', 'email name')
+      .lean()
+
+    const referees = await User.find({ email: { $in: referrals.map(referral => referral.referredEmail) } })
+      .select('email name status createdAt')
+      .lean()
+    const refereeMap = new Map(referees.map(referee => [referee.email, referee]))
+
+    const total = await Referral.countDocuments(filter)
+
+    res.json({
+      success: true,
+      data: {
+        referrals: referrals.map(referral => ({
+          ...referral,
+          referee: refereeMap.get(referral.referredEmail) || null,
+        })),
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      },
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+const referralReviewSchema = z.object({
+  note: z.string().max(1000).optional(),
+})
+
+router.post('/referrals/:referralId/approve', auditLog('referral_approved', 'referral'), requirePermission('points', 'write'), async (req: AuthRequest, res, next) => {
+  try {
+    const { note } = referralReviewSchema.parse(req.body || {})
+    const referral = await referralService.approve(req.params.referralId, req.user?.id, note)
+
+    logInfo('Referral approved', { referralId: req.params.referralId, reviewedBy: req.user?.email })
+
+    res.json({
+      success: true,
+      data: {
+        referral,
+      },
+    })
+  } catch (error) {
+    if (error instanceof ReferralError) {
+      return res.status(error.status).json({
+        success: false,
+        message: error.message,
+      })
+    }
+    next(error)
+  }
+})
+
+router.post('/referrals/:referralId/void', auditLog('referral_voided', 'referral'), requirePermission('points', 'write'), async (req: AuthRequest, res, next) => {
+  try {
+    const { note } = referralReviewSchema.parse(req.body || {})
+    const referral = await referralService.void(req.params.referralId, req.user?.id, note)
+
+    res.json({
+      success: true,
+      data: {
+        referral,
+        pointsClawedBack: referral.pointsClawedBack,
+      },
+    })
+  } catch (error) {
+    if (error instanceof ReferralError) {
+      return res.status(error.status).json({
+        success: false,
+        message: error.message,
+      })
+    }
+    next(error)
+  }
+})
+
+// Referral campaigns
+const campaignLink = (req: AuthRequest, code: string) =>
+  referralClickService.getTrackedLink(code, `${req.protocol}://${req.get('host')}`)
+
+router.get('/campaigns', requirePermission('settings', 'read'), async (req: AuthRequest, res, next) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100)
+    const skip = (page - 1) * limit
+
+    const filter: any = {}
+    if (req.query.ownerType) {
+      filter.ownerType = req.query.ownerType
+    }
+    if (req.query.active === 'true' || req.query.active === 'false') {
+      filter.isActive = req.query.active === 'true'
+    }
+
+    const campaigns = await ReferralCampaign.find(filter)
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(limit)
+      .populate('ownerUserId', 'email name renopaysTag')
+      .lean()
+
+    const total = await ReferralCampaign.countDocuments(filter)
+
+    res.json({
+      success: true,
+      data: {
+        campaigns: campaigns.map(campaign => ({
+          ...campaign,
+          link: campaignLink(req, campaign.code),
+          unavailableReason: campaignService.getUnavailableReason(campaign),
+        })),
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      },
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+const createCampaignSchema = z.object({
+  code: z.string().min(3).max(30).toLowerCase().regex(/^[a-z0-9_-]+$/),
+  name: z.string().min(1).max(255),
+  ownerType: z.enum(['house', 'influencer']).default('house'),
+  ownerUserId: z.string().nullable().optional(),
+  referrerPoints: z.number().int().min(0).nullable().optional(),
+  refereePoints: z.number().int().min(0).nullable().optional(),
+  expiresAt: z.string().datetime().nullable().optional(),
+  maxUses: z.number().int().min(1).nullable().optional(),
+  isActive: z.boolean().default(true),
+})
+
+// Code and owner are fixed once created so past attribution stays accurate
+const updateCampaignSchema = createCampaignSchema.omit({ code: true, ownerType: true, ownerUserId: true }).partial()
+
+router.post('/campaigns', auditLog('campaign_created', 'campaign'), requirePermission('settings', 'write'), async (req: AuthRequest, res, next) => {
+  try {
+    const validatedData = createCampaignSchema.parse(req.body)
+
+    if (await campaignService.isCodeTaken(validatedData.code)) {
+      return res.status(400).json({
+        success: false,
+        message: 'This code is already used by a campaign or a renopays tag',
+      })
+    }
+
+    let ownerUserId: mongoose.Types.ObjectId | null = null
+    if (validatedData.ownerType === 'influencer') {
+      const owner = validatedData.ownerUserId && mongoose.isValidObjectId(validatedData.ownerUserId)
+        ? await User.findById(validatedData.ownerUserId).select('renopaysTag')
+        : null
+      if (!owner?.renopaysTag) {
+        return res.status(400).json({
+          success: false,
+          message: 'Influencer campaigns need an owner with a renopays tag',
+        })
+      }
+      ownerUserId = owner._id as mongoose.Types.ObjectId
+    } else if (validatedData.ownerUserId) {
+      return res.status(400).json({
+        success: false,
+        message: 'House campaigns have no owner',
+      })
+    }
+
+    const campaign = await ReferralCampaign.create({
+      ...validatedData,
+      ownerUserId,
+      expiresAt: validatedData.expiresAt ? new Date(validatedData.expiresAt) : null,
+      createdBy: req.user?.id,
+    })
+
+    logInfo('Referral campaign created', { code: campaign.code, ownerType: campaign.ownerType, createdBy: req.user?.email })
+
+    res.status(201).json({
+      success: true,
+      data: {
+        campaign,
+        link: campaignLink(req, campaign.code),
+      },
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+router.patch('/campaigns/:campaignId', auditLog('campaign_updated', 'campaign'), requirePermission('settings', 'write'), async (req: AuthRequest, res, next) => {
+  try {
+    const { campaignId } = req.params
+    const validatedData = updateCampaignSchema.parse(req.body)
+
+    const updateData: any = { ...validatedData }
+    if (validatedData.expiresAt !== undefined) {
+      updateData.expiresAt = validatedData.expiresAt ? new Date(validatedData.expiresAt) : null
+    }
+
+    if (Object.keys(updateData).length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'No fields to update',
+      })
+    }
+
+    const campaign = mongoose.isValidObjectId(campaignId)
+      ? await ReferralCampaign.findByIdAndUpdate(campaignId, updateData, { new: true })
+      : null
+    if (!campaign) {
+      return res.status(404).json({
+        success: false,
+        message: 'Campaign not found',
+      })
+    }
+
+    logInfo('Referral campaign updated', { code: campaign.code, updatedBy: req.user?.email })
+
+    res.json({
+      success: true,
+      data: {
+        campaign,
+      },
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+router.get('/campaigns/:campaignId/stats', requirePermission('analytics', 'read'), async (req: AuthRequest, res, next) => {
+  try {
+    const { campaignId } = req.params
+
+    const campaign = mongoose.isValidObjectId(campaignId)
+      ? await ReferralCampaign.findById(campaignId).lean()
+      : null
+    if (!campaign) {
+      return res.status(404).json({
+        success: false,
+        message: 'Campaign not found',
+      })
+    }
+
+    const funnel = await campaignService.getFunnel(campaign._id as mongoose.Types.ObjectId)
+
+    res.json({
+      success: true,
+      data: {
+        campaign: {
+          _id: campaign._id,
+          code: campaign.code,
+          name: campaign.name,
+          ownerType: campaign.ownerType,
+          useCount: campaign.useCount,
+          maxUses: campaign.maxUses ?? null,
+          expiresAt: campaign.expiresAt ?? null,
+        },
+        funnel,
+      },
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Referral link clicks → signups → completed referrals across all referrers
+const referralFunnelQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+})
+
+router.get('/referral-funnel', requirePermission('analytics', 'read'), async (req: AuthRequest, res, next) => {
+  try {
+    const { from, to, limit } = referralFunnelQuerySchema.parse(req.query)
+    const overview = await referralClickService.getOverview(from, to, limit)
+
+    res.json({
+      success: true,
+      data: {
+        from: from || null,
+        to: to || null,
+        ...overview,
+        conversion: {
+          clickToSignup: overview.totals.clicks ? overview.totals.convertedClicks / overview.totals.clicks : 0,
+          signupToCompleted: overview.totals.signups ? overview.totals.completed / overview.totals.signups : 0,
+        },
+      },
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Multi-level referral rewards; level 1 is the referral_referrer reward rule
+router.get('/referral-levels', requirePermission('settings', 'read'), async (req: AuthRequest, res, next) => {
+  try {
+    const levels = await referralService.getLevels()
+    const directRule = await getRewardRule('referral_referrer')
+
+    res.json({
+      success: true,
+      data: {
+        direct: { level: 1, points: directRule.points, rule: directRule.key },
+        levels,
+      },
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+const referralLevelSchema = z.object({
+  level: z.number().int().min(2).max(MAX_REFERRAL_LEVEL),
+  points: z.number().int().min(0),
+  maxPoints: z.number().int().min(0).nullable().default(null),
+})
+
+// Replaces the whole level table; applies to referrals completed from now on
+router.put('/referral-levels', auditLog('referral_levels_updated', 'referral_level'), requirePermission('settings', 'write'), async (req: AuthRequest, res, next) => {
+  try {
+    const levels = z.array(referralLevelSchema).max(MAX_REFERRAL_LEVEL - 1).parse(req.body)
+
+    const saved = await referralService.replaceLevels(levels)
+
+    logInfo('Referral levels changed by admin', { levels: saved.length, updatedBy: req.user?.email })
+
+    res.json({
+      success: true,
+      data: {
+        levels: saved,
+      },
+    })
+  } catch (error) {
+    if (error instanceof ReferralError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      })
+    }
+    next(error)
+  }
+})
+
+// Seasons
+router.get('/seasons', requirePermission('seasons', 'read'), async (req: AuthRequest, res, next) => {
+  try {
+    const seasons = await Season.find().sort({ startsAt: -1 }).lean()
+
+    res.json({
+      success: true,
+      data: {
+        seasons,
+      },
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+const openSeasonSchema = z.object({
+  name: z.string().min(1).max(255),
+  description: z.string().optional(),
+  startsAt: z.string().datetime().optional(), // Defaults to now
+  endsAt: z.string().datetime(),
+})
+
+router.post('/seasons', auditLog('season_opened', 'season'), requirePermission('seasons', 'write'), async (req: AuthRequest, res, next) => {
+  try {
+    const validatedData = openSeasonSchema.parse(req.body)
+
+    const season = await seasonService.openSeason(
+      {
+        name: validatedData.name,
+        description: validatedData.description,
+        startsAt: validatedData.startsAt ? new Date(validatedData.startsAt) : new Date(),
+        endsAt: new Date(validatedData.endsAt),
+      },
+      req.user?.id
+    )
+
+    res.status(201).json({
+      success: true,
+      data: season,
+    })
+  } catch (error) {
+    if (error instanceof SeasonError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      })
+    }
+    next(error)
+  }
+})
+
+router.post('/seasons/:seasonId/close', auditLog('season_closed', 'season'), requirePermission('seasons', 'write'), async (req: AuthRequest, res, next) => {
+  try {
+    const { seasonId } = req.params
+
+    const season = await seasonService.closeSeason(seasonId, req.user?.id)
+
+    logInfo('Season closed by admin', { seasonId, closedBy: req.user?.email })
+
+    res.json({
+      success: true,
+      message: 'Season closed and standings archived',
+      data: season,
+    })
+  } catch (error) {
+    if (error instanceof SeasonError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      })
+    }
+    next(error)
+  }
+})
+
+// Badges and achievements
+const badgeCriterionSchema = z.discriminatedUnion('metric', [
+  z.object({ metric: z.literal('referrals_completed'), threshold: z.number().int().min(1) }),
+  z.object({ metric: z.literal('tasks_completed'), threshold: z.number().int().min(1), taskType: z.string().optional() }),
+  z.object({ metric: z.literal('points_earned'), threshold: z.number().int().min(1) }),
+  z.object({ metric: z.literal('event_count'), threshold: z.number().int().min(1), eventType: z.string().min(1) }),
+])
+
+const badgeSchema = z.object({
+  key: z.string().min(2).max(50).regex(/^[a-z0-9_-]+$/),
+  name: z.string().min(1).max(255),
+  description: z.string().optional(),
+  iconUrl: z.string().url().optional(),
+  criteria: z.array(badgeCriterionSchema).min(1),
+  bonusPoints: z.number().int().min(0).default(0),
+  isActive: z.boolean().default(true),
+})
+
+const updateBadgeSchema = badgeSchema.omit({ key: true }).partial()
+
+router.get('/badges', requirePermission('badges', 'read'), async (req: AuthRequest, res, next) => {
+  try {
+    const badges = await Badge.find().sort({ createdAt: -1 }).lean()
+
+    res.json({
+      success: true,
+      data: {
+        badges,
+      },
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+router.post('/badges', auditLog('badge_created', 'badge'), requirePermission('badges', 'write'), async (req: AuthRequest, res, next) => {
+  try {
+    const validatedData = badgeSchema.parse(req.body)
+
+    const existing = await Badge.findOne({ key: validatedData.key })
+    if (existing) {
+      return res.status(400).json({
+        success: false,
+        message: 'A badge with this key already exists',
+      })
+    }
+
+    const badge = await Badge.create({
+      ...validatedData,
+      createdBy: req.user?.id,
+    })
+
+    logInfo('Badge created', { badge: badge.key, createdBy: req.user?.email })
+
+    res.status(201).json({
+      success: true,
+      data: badge,
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+router.patch('/badges/:badgeId', auditLog('badge_updated', 'badge'), requirePermission('badges', 'write'), async (req: AuthRequest, res, next) => {
+  try {
+    const { badgeId } = req.params
+    const validatedData = updateBadgeSchema.parse(req.body)
+
+    if (Object.keys(validatedData).length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'No fields to update',
+      })
+    }
+
+    const badge = await Badge.findByIdAndUpdate(badgeId, validatedData, { new: true })
+
+    if (!badge) {
+      return res.status(404).json({
+        success: false,
+        message: 'Badge not found',
+      })
+    }
+
+    logInfo('Badge updated', { badgeId, updatedBy: req.user?.email })
+
+    res.json({
+      success: true,
+      data: badge,
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Re-check every badge for a user (e.g. after adding a new badge)
+router.post('/users/:userId/badges/evaluate', auditLog('badges_evaluated', 'user'), requirePermission('badges', 'write'), async (req: AuthRequest, res, next) => {
+  try {
+    const { userId } = req.params
+
+    const user = await User.findById(userId).select('_id')
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found',
+      })
+    }
+
+    const granted = await achievementService.evaluate(userId)
+    const badges = await achievementService.getUserBadges(userId)
+
+    res.json({
+      success: true,
+      data: {
+        granted,
+        badges,
+      },
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Quests
+router.get('/quests', requirePermission('tasks', 'read'), async (req: AuthRequest, res, next) => {
+  try {
+    const quests = await Quest.find()
+      .populate('steps', 'title taskType isActive')
+      .sort({ createdAt: -1 })
+      .lean()
+
+    res.json({
+      success: true,
+      data: {
+        quests,
+      },
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+const questSchema = z.object({
+  title: z.string().min(1).max(255),
+  description: z.string().optional(),
+  steps: z.array(z.string()).min(1).max(50),
+  bonusPoints: z.number().int().min(0).default(0),
+  isActive: z.boolean().default(true),
+})
+
+const updateQuestSchema = questSchema.partial()
+
+const validateQuestSteps = async (steps: string[], questId?: string): Promise<string | null> => {
+  if (steps.some(id => !mongoose.isValidObjectId(id))) {
+    return 'Invalid task id'
+  }
+  if (new Set(steps).size !== steps.length) {
+    return 'A task can only appear once in a quest'
+  }
+  const found = await Task.countDocuments({ _id: { $in: steps } })
+  if (found !== steps.length) {
+    return 'Quest step task not found'
+  }
+  if (await taskService.createsDependencyCycle({ questId, steps })) {
+    return 'Quest order conflicts with task prerequisites'
+  }
+  return null
+}
+
+router.post('/quests', auditLog('quest_created', 'quest'), requirePermission('tasks', 'write'), async (req: AuthRequest, res, next) => {
+  try {
+    const validatedData = questSchema.parse(req.body)
+
+    const stepsError = await validateQuestSteps(validatedData.steps)
+    if (stepsError) {
+      return res.status(400).json({
+        success: false,
+        message: stepsError,
+      })
+    }
+
+    const quest = await Quest.create({
+      ...validatedData,
+      createdBy: req.user?.id,
+    })
+
+    logInfo('Quest created', { questId: (quest._id as mongoose.Types.ObjectId).toString(), createdBy: req.user?.email })
+
+    res.status(201).json({
+      success: true,
+      data: quest,
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+router.patch('/quests/:questId', auditLog('quest_updated', 'quest'), requirePermission('tasks', 'write'), async (req: AuthRequest, res, next) => {
+  try {
+    const { questId } = req.params
+    const validatedData = updateQuestSchema.parse(req.body)
+
+    if (Object.keys(validatedData).length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'No fields to update',
+      })
+    }
+
+    const existing = await Quest.findById(questId).select('steps isActive').lean()
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Quest not found',
+      })
+    }
+
+    if (validatedData.steps) {
+      const stepsError = await validateQuestSteps(validatedData.steps, questId)
+      if (stepsError) {
+        return res.status(400).json({
+          success: false,
+          message: stepsError,
+        })
+      }
+    } else if (validatedData.isActive ?? existing.isActive) {
+      // Prerequisites may have changed while the quest was inactive
+      const steps = existing.steps.map(step => step.toString())
+      if (await taskService.createsDependencyCycle({ questId, steps })) {
+        return res.status(400).json({
+          success: false,
+          message: 'Quest order conflicts with task prerequisites',
+        })
+      }
+    }
+
+    const quest = await Quest.findByIdAndUpdate(questId, validatedData, { new: true })
+
+    if (!quest) {
+      return res.status(404).json({
+        success: false,
+        message: 'Quest not found',
+      })
+    }
+
+    logInfo('Quest updated', { questId, updatedBy: req.user?.email })
+
+    res.json({
+      success: true,
+      data: quest,
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
 export default router
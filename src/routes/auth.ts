@@ -8,6 +8,9 @@ import { AdminUser } from '../models/AdminUser.js'
 import { strictRateLimiter, rateLimiter } from '../middleware/rateLimiter.js'
 import { User } from '../models/User.js'
 import { emailService } from '../services/emailService.js'
+import { achievementService } from '../services/achievementService.js'
+import { tierService } from '../services/tierService.js'
+import { domainEvents } from '../services/domainEvents.js'
 import { authenticate, AuthRequest } from '../middleware/auth.js'
 import { logError, logWarn, logInfo } from '../utils/logger.js'
 import { getJwtSecret } from '../utils/jwtSecret.js'
@@ -245,6 +248,8 @@ router.get('/verify-email', async (req, res, next) => {
     user.status = 'onboarded'
     await user.save()
 
+    domainEvents.publish('email_verified', (user._id as mongoose.Types.ObjectId).toString())
+
     res.json({
       success: true,
       message: 'Email verified successfully',
@@ -294,6 +299,8 @@ router.get('/me', authenticate, async (req: AuthRequest, res, next) => {
       }
     }
 
+    const badges = await achievementService.getUserBadges(user._id as mongoose.Types.ObjectId)
+
     res.json({
       success: true,
       data: {
@@ -315,6 +322,8 @@ router.get('/me', authenticate, async (req: AuthRequest, res, next) => {
           banned,
           banReason,
           bannedUntil: bannedUntil ? bannedUntil.toISOString() : null,
+          badges,
+          tier: await tierService.describe(user),
         },
       },
     })
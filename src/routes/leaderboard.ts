@@ -0,0 +1,72 @@
+import express from 'express'
+import mongoose from 'mongoose'
+import { authenticate, AuthRequest } from '../middleware/auth.js'
+import { User } from '../models/User.js'
+import { leaderboardService, getWindowStart, LEADERBOARD_WINDOWS, LeaderboardWindow } from '../services/leaderboardService.js'
+import { z } from 'zod'
+
+const router = express.Router()
+
+const leaderboardQuerySchema = z.object({
+  window: z.enum(LEADERBOARD_WINDOWS as [LeaderboardWindow, ...LeaderboardWindow[]]).default('all'),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+})
+
+// Public leaderboard - no emails are exposed
+router.get('/', async (req, res, next) => {
+  try {
+    const { window, limit } = leaderboardQuerySchema.parse(req.query)
+
+    const { computedAt, entries } = await leaderboardService.getTop(window, limit)
+
+    res.json({
+      success: true,
+      data: {
+        window,
+        windowStart: getWindowStart(window),
+        computedAt,
+        entries,
+      },
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Caller's own rank with the users directly above and below
+router.get('/me', authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const { window } = leaderboardQuerySchema.parse(req.query)
+    const neighbours = Math.min(parseInt(req.query.neighbours as string) || 2, 10)
+
+    const user = await User.findOne({ email: req.user?.email }).select('_id')
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found',
+      })
+    }
+
+    const standing = await leaderboardService.getUserStanding(
+      window,
+      (user._id as mongoose.Types.ObjectId).toString(),
+      neighbours
+    )
+
+    res.json({
+      success: true,
+      data: {
+        window,
+        windowStart: getWindowStart(window),
+        computedAt: standing.computedAt,
+        rank: standing.entry?.rank || null,
+        score: standing.entry?.score || 0,
+        neighbours: standing.neighbours,
+      },
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+export default router
@@ -5,16 +5,23 @@ import { User } from '../models/User.js'
 import { Referral } from '../models/Referral.js'
 import { OnboardingEvent } from '../models/OnboardingEvent.js'
 import { emailService } from '../services/emailService.js'
+import { campaignService } from '../services/campaignService.js'
+import { referralClickService, ATTRIBUTION_COOKIE } from '../services/referralClickService.js'
 import { strictRateLimiter, rateLimiter } from '../middleware/rateLimiter.js'
 import { checkBotActivity, honeypotField } from '../middleware/botPrevention.js'
-import { logInfo } from '../utils/logger.js'
+import { logInfo, logError } from '../utils/logger.js'
+import { readCookie } from '../utils/cookies.js'
 
 const router = express.Router()
 
 router.post('/', strictRateLimiter, honeypotField, checkBotActivity, async (req, res, next) => {
   try {
     const validatedData = onboardingSchema.parse(req.body)
-    const referralCode = req.body.referralCode as string | undefined
+    // A click on a /r/:code link supplies the code when none was typed
+    const attribution = await referralClickService.readAttribution(
+      (req.body.attributionToken as string | undefined) || readCookie(req, ATTRIBUTION_COOKIE)
+    )
+    const referralCode = (req.body.referralCode as string | undefined) || attribution?.code
 
     const existingUser = await User.findOne({ email: validatedData.email })
     if (existingUser) {
@@ -24,12 +31,21 @@ router.post('/', strictRateLimiter, honeypotField, checkBotActivity, async (req,
       })
     }
 
+    // The code may be a user's renopays tag or a campaign code; influencer
+    // campaigns refer the signup to the campaign owner
     let referredBy: string | undefined
     let referredByUserId: mongoose.Types.ObjectId | undefined
+    let campaignId: mongoose.Types.ObjectId | undefined
+    let campaignCode: string | undefined
     if (referralCode) {
-      const referrer = await User.findOne({ renopaysTag: referralCode.toLowerCase() })
-      if (referrer) {
-        referredBy = referrer.renopaysTag
+      const { referrer, campaign } = await campaignService.resolveCode(referralCode)
+      if (campaign && await campaignService.redeem(campaign._id as mongoose.Types.ObjectId)) {
+        campaignId = campaign._id as mongoose.Types.ObjectId
+        campaignCode = campaign.code
+      }
+      // An influencer who has not created a tag yet is still the referrer
+      if (referrer && (!campaign || campaignId)) {
+        referredBy = referrer.renopaysTag || undefined
         referredByUserId = referrer._id as mongoose.Types.ObjectId
       }
     }
@@ -43,9 +59,31 @@ router.post('/', strictRateLimiter, honeypotField, checkBotActivity, async (req,
       emailVerified: false,
       referredBy: referredBy,
       referredByUserId: referredByUserId,
+      campaignId,
     })
 
-    await user.save()
+    try {
+      await user.save()
+    } catch (error) {
+      if (campaignId) {
+        await campaignService.release(campaignId)
+      }
+      throw error
+    }
+
+    // The click converts only when its code is the one that referred this
+    // signup; a different typed code credits someone else
+    const convertedClick = attribution && (referredByUserId || campaignId) &&
+      referralCode?.trim().toLowerCase() === attribution.code
+        ? attribution
+        : null
+    if (attribution) {
+      if (convertedClick) {
+        await referralClickService.markConverted(convertedClick._id as mongoose.Types.ObjectId, user._id as mongoose.Types.ObjectId)
+          .catch((error: any) => logError('Failed to mark referral click converted', { clickId: convertedClick._id, error: error?.message }))
+      }
+      res.clearCookie(ATTRIBUTION_COOKIE)
+    }
 
     // Log onboarding event
     await OnboardingEvent.create({
@@ -55,14 +93,16 @@ router.post('/', strictRateLimiter, honeypotField, checkBotActivity, async (req,
         step: 1, 
         interests: validatedData.interests, 
         referredBy,
+        campaign: campaignCode,
+        referralClickId: convertedClick?._id,
         signup_ip: req.ip || req.socket.remoteAddress || '',
         fingerprint: (req as any).fingerprint,
       },
     })
 
     // Create referral record if user was referred
-    if (referredBy) {
-      const referrer = await User.findOne({ renopaysTag: referredBy })
+    if (referredByUserId) {
+      const referrer = await User.findById(referredByUserId)
       if (referrer) {
         await Referral.findOneAndUpdate(
           {
@@ -73,6 +113,7 @@ router.post('/', strictRateLimiter, honeypotField, checkBotActivity, async (req,
             referrerId: referrer._id,
             referredEmail: validatedData.email.toLowerCase(),
             referredName: validatedData.name,
+            campaignId: campaignId || null,
             status: 'pending',
           },
           { upsert: true, new: true }
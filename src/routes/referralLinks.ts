@@ -0,0 +1,47 @@
+import express from 'express'
+import { referralClickService, ATTRIBUTION_COOKIE, ATTRIBUTION_DAYS } from '../services/referralClickService.js'
+import { logError } from '../utils/logger.js'
+
+const router = express.Router()
+
+const frontendUrl = () => process.env.FRONTEND_URL?.replace(/\/$/, '') || 'http://localhost:5173'
+
+// Short referral link: records the click and forwards to the signup page.
+// Unknown codes still redirect so a mistyped link never dead-ends.
+router.get('/:code', async (req, res) => {
+  const { code } = req.params
+  const target = new URL(`${frontendUrl()}/ref/${encodeURIComponent(code)}`)
+  for (const [key, value] of Object.entries(req.query)) {
+    if (key.startsWith('utm_') && typeof value === 'string') {
+      target.searchParams.set(key, value)
+    }
+  }
+
+  try {
+    const click = await referralClickService.recordClick({
+      code,
+      ip: req.ip || req.socket.remoteAddress,
+      userAgent: req.get('user-agent'),
+      query: req.query,
+    })
+
+    if (click) {
+      const token = referralClickService.createAttributionToken(click)
+      res.cookie(ATTRIBUTION_COOKIE, token, {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax',
+        maxAge: ATTRIBUTION_DAYS * 24 * 60 * 60 * 1000,
+      })
+      // The cookie only reaches the API when it shares a site with the
+      // frontend, so the token is also handed over for onboarding to send back
+      target.searchParams.set('attribution', token)
+    }
+  } catch (error: any) {
+    logError('Failed to record referral click', { code, error: error?.message })
+  }
+
+  res.redirect(302, target.toString())
+})
+
+export default router
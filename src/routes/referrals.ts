@@ -4,9 +4,9 @@ import { authenticate, AuthRequest } from '../middleware/auth.js'
 import { checkBanStatus } from '../middleware/banCheck.js'
 import { User } from '../models/User.js'
 import { Referral } from '../models/Referral.js'
-import { awardPoints } from '../utils/pointsManager.js'
-import { logError, logWarn, logInfo } from '../utils/logger.js'
-import { z } from 'zod'
+import { referralService, MAX_REFERRAL_LEVEL } from '../services/referralService.js'
+import { domainEvents } from '../services/domainEvents.js'
+import { referralClickService } from '../services/referralClickService.js'
 
 const router = express.Router()
 
@@ -43,7 +43,8 @@ router.get('/my-referrals', authenticate, checkBanStatus, async (req: AuthReques
 
     const userMap = new Map(referredUsers.map(u => [u.email, u]))
 
-    const referralsWithUsers = referrals.map(ref => {
+    // Risk signals are for reviewers only
+    const referralsWithUsers = referrals.map(({ riskFlags: _riskFlags, reviewedBy: _reviewedBy, reviewNote: _reviewNote, ...ref }) => {
       const referredUser = userMap.get(ref.referredEmail)
       return {
         ...ref,
@@ -59,8 +60,12 @@ router.get('/my-referrals', authenticate, checkBanStatus, async (req: AuthReques
 
     // Get referral statistics
     const total = referrals.length
-    const successful = referrals.filter(r => r.allVerificationsComplete).length
+    const successful = referrals.filter(r => r.allVerificationsComplete && r.reviewStatus !== 'voided').length
     const pending = referrals.filter(r => r.status === 'pending').length
+    const underReview = referrals.filter(r => r.reviewStatus === 'pending_review').length
+
+    // Link clicks → signups → completed referrals
+    const funnel = await referralClickService.getReferrerFunnel(user._id as mongoose.Types.ObjectId)
 
     res.json({
       success: true,
@@ -70,9 +75,48 @@ router.get('/my-referrals', authenticate, checkBanStatus, async (req: AuthReques
           total,
           successful,
           pending,
+          underReview,
         },
+        funnel,
         referralCode: user.renopaysTag,
-        referralLink: `${process.env.FRONTEND_URL || 'http://localhost:5173'}/ref/${user.renopaysTag}`,
+        referralLink: user.renopaysTag
+          ? referralClickService.getTrackedLink(user.renopaysTag, `${req.protocol}://${req.get('host')}`)
+          : null,
+      },
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// The caller's downline, level by level. Defaults to the levels that earn
+// rewards, and at least three.
+router.get('/tree', authenticate, checkBanStatus, async (req: AuthRequest, res, next) => {
+  try {
+    const user = await User.findOne({ email: req.user?.email }).select('_id')
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found',
+      })
+    }
+
+    const rewardDepth = (await referralService.getLevels()).length + 1
+    const requested = parseInt(req.query.depth as string) || Math.max(rewardDepth, 3)
+    const depth = Math.min(Math.max(requested, 1), MAX_REFERRAL_LEVEL)
+
+    const levels = await referralService.getDownline(user._id as mongoose.Types.ObjectId, depth)
+
+    res.json({
+      success: true,
+      data: {
+        depth,
+        rewardDepth,
+        levels,
+        totals: {
+          total: levels.reduce((sum, level) => sum + level.total, 0),
+          completed: levels.reduce((sum, level) => sum + level.completed, 0),
+        },
       },
     })
   } catch (error) {
@@ -80,7 +124,8 @@ router.get('/my-referrals', authenticate, checkBanStatus, async (req: AuthReques
   }
 })
 
-// Check and update referral status when user completes verifications
+// Current referral status of the signed-in user. Completion itself happens
+// when the verification events come in, see referralService.
 router.post('/check-referral-completion', authenticate, checkBanStatus, async (req: AuthRequest, res, next) => {
   try {
     const userEmail = req.user?.email
@@ -99,119 +144,9 @@ router.post('/check-referral-completion', authenticate, checkBanStatus, async (r
       })
     }
 
-    // Check if all verifications are complete
-    const allComplete = 
-      user.emailVerified &&
-      user.telegramVerified &&
-      user.telegramFollowed &&
-      !!user.renopaysTag
-
-    if (!allComplete) {
-      return res.json({
-        success: true,
-        data: {
-          allComplete: false,
-          requirements: {
-            emailVerified: user.emailVerified,
-            telegramVerified: user.telegramVerified,
-            telegramFollowed: user.telegramFollowed,
-            renopaysTagCreated: !!user.renopaysTag,
-          },
-        },
-      })
-    }
-
-    // If all complete and user was referred, update referral status
-    if (user.referredBy) {
-      const referrer = await User.findOne({ renopaysTag: user.referredBy })
-      
-      if (referrer) {
-        // Find or create referral record
-        let referral = await Referral.findOne({
-          referrerId: referrer._id,
-          referredEmail: userEmail.toLowerCase(),
-        })
-
-        if (!referral) {
-          referral = await Referral.create({
-            referrerId: referrer._id,
-            referredEmail: userEmail.toLowerCase(),
-            referredName: user.name,
-          })
-        }
-
-        // Update referral record
-        referral.emailVerified = user.emailVerified
-        referral.telegramVerified = user.telegramVerified
-        referral.telegramFollowed = user.telegramFollowed
-        referral.renopaysTagCreated = !!user.renopaysTag
-        referral.allVerificationsComplete = allComplete
-        referral.status = allComplete ? 'completed' : 'pending'
-        if (allComplete && !referral.completedAt) {
-          referral.completedAt = new Date()
-        }
-        await referral.save()
-
-        // If referral is now complete and points not yet awarded, award points
-        if (allComplete && !referral.pointsAwarded) {
-          // Award points to referrer securely (150 points per successful referral)
-          const referrerPointsResult = await awardPoints(
-            (referrer._id as mongoose.Types.ObjectId).toString(),
-            150,
-            'Successful referral completed',
-            { referredEmail: userEmail, referralId: (referral._id as mongoose.Types.ObjectId).toString() }
-          )
-
-          if (referrerPointsResult.success) {
-            referrer.successfulReferrals = (referrer.successfulReferrals || 0) + 1
-            await referrer.save()
-
-            logInfo('Referral points awarded to referrer', {
-              referrerEmail: referrer.email,
-              referredEmail: userEmail,
-              points: 150,
-            })
-          } else {
-            logWarn('Failed to award referral points to referrer', {
-              referrerEmail: referrer.email,
-              referredEmail: userEmail,
-            })
-          }
-
-          // Award bonus points to referred user securely (100 points)
-          const referredPointsResult = await awardPoints(
-            (user._id as mongoose.Types.ObjectId).toString(),
-            100,
-            'Referral bonus - completed all verifications',
-            { referrerEmail: referrer.email, referralId: (referral._id as mongoose.Types.ObjectId).toString() }
-          )
-
-          if (referredPointsResult.success) {
-            logInfo('Referral bonus points awarded to referred user', {
-              referredEmail: userEmail,
-              points: 100,
-            })
-          } else {
-            logWarn('Failed to award referral bonus points', {
-              referredEmail: userEmail,
-            })
-          }
-
-          // Mark points as awarded only if both succeeded
-          if (referrerPointsResult.success && referredPointsResult.success) {
-            referral.pointsAwarded = true
-            await referral.save()
-          }
-        }
-      }
-    }
-
     res.json({
       success: true,
-      data: {
-        allComplete: true,
-        message: 'All verifications complete!',
-      },
+      data: await referralService.getStatus(user),
     })
   } catch (error) {
     next(error)
@@ -240,8 +175,7 @@ router.post('/mark-telegram-followed', authenticate, checkBanStatus, async (req:
     user.telegramFollowed = true
     await user.save()
 
-    // Trigger referral check
-    // (In production, this would be called automatically when bot verifies)
+    domainEvents.publish('telegram_followed', (user._id as mongoose.Types.ObjectId).toString())
 
     res.json({
       success: true,
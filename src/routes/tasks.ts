@@ -2,28 +2,317 @@ import express from 'express'
 import mongoose from 'mongoose'
 import { authenticate, requireAdmin, requirePermission, AuthRequest } from '../middleware/auth.js'
 import { Task, ITask } from '../models/Task.js'
+import { IUser } from '../models/User.js'
 import { UserTask } from '../models/UserTask.js'
 import { logInfo, logWarn, logError } from '../utils/logger.js'
 import { z } from 'zod'
-import { awardPoints } from '../utils/pointsManager.js'
 import { User } from '../models/User.js'
+import { tierService, TierDefinition } from '../services/tierService.js'
+import { taskService, COMPLETED_STATUSES } from '../services/taskService.js'
+import { questService } from '../services/questService.js'
+import { Quest } from '../models/Quest.js'
+import { verifierRegistry } from '../services/taskVerifiers.js'
+import { quizService, QuizError } from '../services/quizService.js'
+import { submissionService, SubmissionError, DEFAULT_CLAIM_MINUTES } from '../services/submissionService.js'
+import { normalizeSubmissionLink } from '../utils/linkNormalizer.js'
+import { TaskTemplate } from '../models/TaskTemplate.js'
+import { taskTransferService, TaskTransferError, FieldChange } from '../services/taskTransferService.js'
 
 const router = express.Router()
 
+const quizQuestionSchema = z.object({
+  prompt: z.string().min(1).max(1000),
+  options: z.array(z.string().min(1).max(500)).min(2).max(10),
+  correctOptions: z.array(z.number().int().min(0)).min(1),
+}).refine(question => question.correctOptions.every(option => option < question.options.length), {
+  message: 'correctOptions must point at existing options',
+})
+
+const quizSchema = z.object({
+  questions: z.array(quizQuestionSchema).min(1).max(50),
+  passPercent: z.number().int().min(1).max(100).default(100),
+  maxAttempts: z.number().int().min(1).max(20).default(3),
+})
+
+const audienceSchema = z.object({
+  interests: z.array(z.string().trim().min(1).max(100)).max(50).default([]),
+  signedUpAfter: z.string().datetime().nullable().optional(),
+  signedUpBefore: z.string().datetime().nullable().optional(),
+  referred: z.boolean().nullable().optional(),
+  emailVerified: z.boolean().nullable().optional(),
+  userIds: z.array(z.string().refine(id => mongoose.isValidObjectId(id), { message: 'Invalid user id' })).max(10000).default([]),
+}).refine(audience => !audience.signedUpAfter || !audience.signedUpBefore || audience.signedUpAfter < audience.signedUpBefore, {
+  message: 'signedUpBefore must be after signedUpAfter',
+})
+
 const createTaskSchema = z.object({
   title: z.string().min(1).max(255),
   description: z.string().optional(),
-  taskType: z.enum(['follow_telegram', 'follow_x', 'join_discord', 'follow_instagram', 'like_post', 'retweet', 'custom']),
+  taskType: z.enum(['follow_telegram', 'follow_x', 'join_discord', 'follow_instagram', 'like_post', 'retweet', 'quiz', 'custom']),
   actionUrl: z.string().url().optional(),
   pointsReward: z.number().int().min(0).default(0),
   isActive: z.boolean().default(true),
   requiresVerification: z.boolean().default(false),
   verificationMethod: z.string().optional(),
+  minTier: z.string().toLowerCase().nullable().optional(),
+  startsAt: z.string().datetime().nullable().optional(),
+  endsAt: z.string().datetime().nullable().optional(),
+  maxCompletions: z.number().int().min(1).nullable().optional(),
+  repeatPolicy: z.enum(['retry_on_rejection', 'single_attempt']).optional(),
+  recurrence: z.enum(['none', 'daily', 'weekly']).optional(),
+  prerequisites: z.array(z.string()).max(20).optional(),
+  quiz: quizSchema.nullable().optional(),
+  duplicateLinkPolicy: z.enum(['allow', 'flag', 'block']).optional(),
+  audience: audienceSchema.nullable().optional(),
   metadata: z.record(z.any()).optional(),
 })
 
 const updateTaskSchema = createTaskSchema.partial()
 
+const MAX_IMPORT_ROWS = 500
+
+const importTasksSchema = z.object({
+  format: z.enum(['json', 'csv']).default('json'),
+  tasks: z.array(z.record(z.any())).max(MAX_IMPORT_ROWS).optional(),
+  csv: z.string().max(5_000_000).optional(),
+  dryRun: z.boolean().default(false),
+}).refine(data => (data.format === 'csv' ? !!data.csv : !!data.tasks), {
+  message: 'Provide tasks for JSON imports or csv for CSV imports',
+})
+
+const createTemplateSchema = z.object({
+  name: z.string().min(1).max(255),
+  description: z.string().max(2000).optional(),
+  tasks: z.array(createTaskSchema).min(1).max(100).optional(),
+  taskIds: z.array(z.string()).min(1).max(100).optional(),
+}).refine(data => !!data.tasks !== !!data.taskIds, {
+  message: 'Provide either tasks or taskIds',
+})
+
+const updateTemplateSchema = z.object({
+  name: z.string().min(1).max(255).optional(),
+  description: z.string().max(2000).optional(),
+  tasks: z.array(createTaskSchema).min(1).max(100).optional(),
+})
+
+// Overrides for every task in the template, then for single tasks by index
+const instantiateTemplateSchema = z.object({
+  overrides: updateTaskSchema.optional(),
+  tasks: z.array(updateTaskSchema.extend({ index: z.number().int().min(0) })).max(100).optional(),
+})
+
+// Tasks gated by a tier are only visible to users at that tier or above.
+// An unknown tier key locks the task for everyone.
+const meetsTierRequirement = (task: ITask, tiers: TierDefinition[], userTier: TierDefinition): boolean => {
+  if (!task.minTier) {
+    return true
+  }
+  const requiredRank = tierService.getTierRank(tiers, task.minTier)
+  return requiredRank >= 0 && tierService.getTierRank(tiers, userTier.key) >= requiredRank
+}
+
+// Tier first, since its message tells the user how to unlock the task;
+// audience rules are not revealed
+const checkTaskAccess = async (task: ITask, user: IUser): Promise<string | null> => {
+  const tiers = await tierService.getTiers()
+  const userTier = await tierService.getUserTier(user)
+  if (!meetsTierRequirement(task, tiers, userTier)) {
+    const required = tiers.find(tier => tier.key === task.minTier)
+    return `This task requires the ${required?.name || task.minTier} tier`
+  }
+  if (!taskService.matchesAudience(task, user)) {
+    return 'This task is not available for your account'
+  }
+  return null
+}
+
+const validateMinTier = async (minTier?: string | null): Promise<boolean> => {
+  if (!minTier) {
+    return true
+  }
+  const tiers = await tierService.getTiers()
+  return tierService.getTierRank(tiers, minTier) >= 0
+}
+
+const validatePrerequisites = async (prerequisites: string[], taskId?: string): Promise<string | null> => {
+  if (prerequisites.some(id => !mongoose.isValidObjectId(id))) {
+    return 'Invalid prerequisite task id'
+  }
+  if (taskId && prerequisites.includes(taskId)) {
+    return 'A task cannot be its own prerequisite'
+  }
+  const found = await Task.countDocuments({ _id: { $in: prerequisites } })
+  if (found !== new Set(prerequisites).size) {
+    return 'Prerequisite task not found'
+  }
+  if (taskId && await taskService.createsDependencyCycle({ taskId, prerequisites })) {
+    return 'Prerequisites would create a cycle'
+  }
+  return null
+}
+
+// Settings a registered verifier needs must be present in the task metadata
+const validateVerifierConfig = (verificationMethod?: string | null, metadata?: any): string | null => {
+  const verifier = verifierRegistry.get(verificationMethod)
+  return verifier ? verifier.validateConfig(metadata) : null
+}
+
+const toDate = (value?: string | null): Date | null => (value ? new Date(value) : null)
+
+const toAudience = (audience?: z.infer<typeof audienceSchema> | null) => {
+  if (!audience) {
+    return null
+  }
+  return {
+    ...audience,
+    signedUpAfter: toDate(audience.signedUpAfter),
+    signedUpBefore: toDate(audience.signedUpBefore),
+  }
+}
+
+const isValidWindow = (startsAt?: Date | null, endsAt?: Date | null): boolean => {
+  return !startsAt || !endsAt || startsAt < endsAt
+}
+
+type TaskDefinition = z.infer<typeof createTaskSchema>
+
+/**
+ * Checks a complete task definition beyond its schema; returns an error
+ * message or null. taskId is set when the definition replaces an existing
+ * task, so prerequisite cycles are checked against it.
+ */
+const validateTaskDefinition = async (data: TaskDefinition, taskId?: string): Promise<string | null> => {
+  if (!(await validateMinTier(data.minTier))) {
+    return 'Unknown tier'
+  }
+  if (!isValidWindow(toDate(data.startsAt), toDate(data.endsAt))) {
+    return 'endsAt must be after startsAt'
+  }
+  const prerequisiteError = await validatePrerequisites(data.prerequisites || [], taskId)
+  if (prerequisiteError) {
+    return prerequisiteError
+  }
+  const verifierError = validateVerifierConfig(data.verificationMethod, data.metadata)
+  if (verifierError) {
+    return verifierError
+  }
+  if (data.taskType === 'quiz' && !data.quiz) {
+    return 'Quiz tasks need a quiz'
+  }
+  return null
+}
+
+// Task document fields for a validated definition
+const toTaskFields = (data: TaskDefinition) => ({
+  title: data.title,
+  description: data.description,
+  taskType: data.taskType,
+  actionUrl: data.actionUrl,
+  pointsReward: data.pointsReward,
+  isActive: data.isActive,
+  requiresVerification: data.requiresVerification,
+  verificationMethod: data.verificationMethod,
+  minTier: data.minTier,
+  startsAt: toDate(data.startsAt),
+  endsAt: toDate(data.endsAt),
+  maxCompletions: data.maxCompletions,
+  repeatPolicy: data.repeatPolicy,
+  recurrence: data.recurrence,
+  prerequisites: data.prerequisites,
+  quiz: data.quiz,
+  duplicateLinkPolicy: data.duplicateLinkPolicy,
+  audience: toAudience(data.audience),
+  metadata: data.metadata,
+})
+
+type ImportAction = 'create' | 'update' | 'unchanged' | 'invalid'
+
+interface ImportPlanItem {
+  row: number
+  action: ImportAction
+  taskId: string | null
+  title?: string
+  changes?: Record<string, FieldChange>
+  errors?: string[]
+  data?: TaskDefinition
+}
+
+const formatZodErrors = (error: z.ZodError): string[] => {
+  return error.errors.map(issue => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+}
+
+/**
+ * Works out what importing the rows would do. Rows with an id update that
+ * task and only need the fields that change; rows without one create a task.
+ */
+const planTaskImport = async (rows: Record<string, any>[]): Promise<ImportPlanItem[]> => {
+  const ids = rows.map(row => row.id).filter(id => typeof id === 'string' && mongoose.isValidObjectId(id))
+  const existing = new Map((await Task.find({ _id: { $in: ids } })).map(task => [
+    (task._id as mongoose.Types.ObjectId).toString(),
+    task,
+  ]))
+
+  const seen = new Set<string>()
+  const items: ImportPlanItem[] = []
+
+  for (const [index, { id, ...raw }] of rows.entries()) {
+    const current = typeof id === 'string' ? existing.get(id) : undefined
+    const item: ImportPlanItem = {
+      row: index + 1,
+      action: 'invalid',
+      taskId: current ? id : null,
+      title: raw.title ?? current?.title,
+    }
+    items.push(item)
+
+    if (id !== undefined && id !== null && id !== '') {
+      if (!current) {
+        item.errors = [`Task ${id} not found`]
+        continue
+      }
+      if (seen.has(id)) {
+        item.errors = ['Task appears more than once']
+        continue
+      }
+      seen.add(id)
+    }
+
+    const before = current ? taskTransferService.toDefinition(current) : {}
+    const parsed = createTaskSchema.safeParse({ ...before, ...raw })
+    if (!parsed.success) {
+      item.errors = formatZodErrors(parsed.error)
+      continue
+    }
+
+    const definitionError = await validateTaskDefinition(parsed.data, current ? id : undefined)
+    if (definitionError) {
+      item.errors = [definitionError]
+      continue
+    }
+
+    item.data = parsed.data
+    if (!current) {
+      item.action = 'create'
+      continue
+    }
+
+    // Compared as stored, so defaults and date formats do not show as changes
+    const after = taskTransferService.toDefinition(new Task(toTaskFields(parsed.data)))
+    item.changes = taskTransferService.diff(before, after)
+    item.action = Object.keys(item.changes).length > 0 ? 'update' : 'unchanged'
+  }
+
+  return items
+}
+
+const summarizeImport = (items: ImportPlanItem[]) => {
+  const summary: Record<ImportAction, number> = { create: 0, update: 0, unchanged: 0, invalid: 0 }
+  for (const item of items) {
+    summary[item.action]++
+  }
+  return summary
+}
+
 router.use(authenticate)
 router.use(requireAdmin)
 
@@ -49,6 +338,351 @@ router.get('/', requirePermission('tasks', 'read'), async (req: AuthRequest, res
   }
 })
 
+router.get('/export', requirePermission('tasks', 'read'), async (req: AuthRequest, res, next) => {
+  try {
+    const format = req.query.format === 'csv' ? 'csv' : 'json'
+    const isActive = req.query.active === 'true' ? true : req.query.active === 'false' ? false : undefined
+
+    const filter: any = {}
+    if (isActive !== undefined) {
+      filter.isActive = isActive
+    }
+
+    const tasks = await Task.find(filter).sort({ createdAt: 1 })
+
+    if (format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8')
+      res.setHeader('Content-Disposition', 'attachment; filename="tasks.csv"')
+      return res.send(taskTransferService.toCsv(tasks))
+    }
+
+    res.json({
+      success: true,
+      data: {
+        tasks: tasks.map(task => taskTransferService.toExport(task)),
+      },
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+router.post('/import', requirePermission('tasks', 'write'), async (req: AuthRequest, res, next) => {
+  try {
+    const validatedData = importTasksSchema.parse(req.body)
+
+    const rows = validatedData.format === 'csv'
+      ? taskTransferService.fromCsv(validatedData.csv!)
+      : validatedData.tasks!
+    if (rows.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'No tasks to import',
+      })
+    }
+    if (rows.length > MAX_IMPORT_ROWS) {
+      return res.status(400).json({
+        success: false,
+        message: `At most ${MAX_IMPORT_ROWS} tasks can be imported at once`,
+      })
+    }
+
+    const plan = await planTaskImport(rows)
+    const summary = summarizeImport(plan)
+    const items = plan.map(({ data: _data, ...item }) => item)
+
+    if (validatedData.dryRun) {
+      return res.json({
+        success: true,
+        data: {
+          dryRun: true,
+          summary,
+          items,
+        },
+      })
+    }
+
+    // Nothing is written unless every row is valid
+    if (summary.invalid > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Some tasks are invalid',
+        errors: items.filter(item => item.action === 'invalid'),
+      })
+    }
+
+    // All rows are written in one transaction, so a failure part-way
+    // leaves nothing behind
+    const session = await mongoose.startSession()
+    try {
+      await session.withTransaction(async () => {
+        for (const item of plan) {
+          if (item.action === 'create') {
+            const [task] = await Task.create([{
+              ...toTaskFields(item.data!),
+              createdBy: req.user?.id,
+            }], { session })
+            item.taskId = (task._id as mongoose.Types.ObjectId).toString()
+          } else if (item.action === 'update') {
+            await Task.updateOne({ _id: item.taskId }, toTaskFields(item.data!), { session })
+          }
+        }
+      })
+    } finally {
+      await session.endSession()
+    }
+
+    for (const item of plan) {
+      if (item.action === 'update' && item.changes?.maxCompletions) {
+        await taskService.recountCompletions(item.taskId!)
+      }
+    }
+
+    logInfo('Tasks imported', { ...summary, format: validatedData.format, importedBy: req.user?.email })
+
+    res.json({
+      success: true,
+      data: {
+        dryRun: false,
+        summary,
+        items: plan.map(({ data: _data, ...item }) => item),
+      },
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors,
+      })
+    }
+    if (error instanceof TaskTransferError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      })
+    }
+    next(error)
+  }
+})
+
+router.get('/templates', requirePermission('tasks', 'read'), async (_req: AuthRequest, res, next) => {
+  try {
+    const templates = await TaskTemplate.find().sort({ name: 1 }).lean()
+
+    res.json({
+      success: true,
+      data: {
+        templates,
+      },
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+router.post('/templates', requirePermission('tasks', 'write'), async (req: AuthRequest, res, next) => {
+  try {
+    const validatedData = createTemplateSchema.parse(req.body)
+
+    if (await TaskTemplate.exists({ name: validatedData.name })) {
+      return res.status(400).json({
+        success: false,
+        message: 'A template with this name already exists',
+      })
+    }
+
+    // Templates can be taken from existing tasks, kept in the given order
+    let definitions: Record<string, any>[] | undefined = validatedData.tasks
+    if (validatedData.taskIds) {
+      if (validatedData.taskIds.some(id => !mongoose.isValidObjectId(id))) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid task id',
+        })
+      }
+      const tasks = await Task.find({ _id: { $in: validatedData.taskIds } })
+      const byId = new Map(tasks.map(task => [(task._id as mongoose.Types.ObjectId).toString(), task]))
+      if (validatedData.taskIds.some(id => !byId.has(id))) {
+        return res.status(404).json({
+          success: false,
+          message: 'Task not found',
+        })
+      }
+      // Prerequisites point at the source tasks, not at the tasks a template
+      // creates, so they are left out
+      definitions = validatedData.taskIds.map(id => {
+        const { prerequisites: _prerequisites, ...definition } = taskTransferService.toDefinition(byId.get(id)!)
+        return definition
+      })
+    }
+
+    const template = await TaskTemplate.create({
+      name: validatedData.name,
+      description: validatedData.description,
+      tasks: definitions,
+      createdBy: req.user?.id,
+    })
+
+    logInfo('Task template created', { templateId: (template._id as mongoose.Types.ObjectId).toString(), createdBy: req.user?.email })
+
+    res.status(201).json({
+      success: true,
+      data: template,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors,
+      })
+    }
+    next(error)
+  }
+})
+
+router.patch('/templates/:templateId', requirePermission('tasks', 'write'), async (req: AuthRequest, res, next) => {
+  try {
+    const { templateId } = req.params
+    const validatedData = updateTemplateSchema.parse(req.body)
+
+    if (Object.keys(validatedData).length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'No fields to update',
+      })
+    }
+
+    if (validatedData.name && await TaskTemplate.exists({ name: validatedData.name, _id: { $ne: templateId } })) {
+      return res.status(400).json({
+        success: false,
+        message: 'A template with this name already exists',
+      })
+    }
+
+    const template = await TaskTemplate.findByIdAndUpdate(templateId, validatedData, { new: true })
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        message: 'Template not found',
+      })
+    }
+
+    logInfo('Task template updated', { templateId, updatedBy: req.user?.email })
+
+    res.json({
+      success: true,
+      data: template,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors,
+      })
+    }
+    next(error)
+  }
+})
+
+router.delete('/templates/:templateId', requirePermission('tasks', 'delete'), async (req: AuthRequest, res, next) => {
+  try {
+    const { templateId } = req.params
+
+    const template = await TaskTemplate.findByIdAndDelete(templateId)
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        message: 'Template not found',
+      })
+    }
+
+    logWarn('Task template deleted', { templateId, deletedBy: req.user?.email })
+
+    res.json({
+      success: true,
+      message: 'Template deleted successfully',
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+router.post('/templates/:templateId/instantiate', requirePermission('tasks', 'write'), async (req: AuthRequest, res, next) => {
+  try {
+    const { templateId } = req.params
+    const validatedData = instantiateTemplateSchema.parse(req.body)
+
+    const template = await TaskTemplate.findById(templateId)
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        message: 'Template not found',
+      })
+    }
+
+    const taskOverrides = validatedData.tasks || []
+    const outOfRange = taskOverrides.find(override => override.index >= template.tasks.length)
+    if (outOfRange) {
+      return res.status(400).json({
+        success: false,
+        message: `Template has no task at index ${outOfRange.index}`,
+      })
+    }
+
+    // Every task is checked before any is created
+    const definitions: TaskDefinition[] = []
+    const errors: { index: number; errors: string[] }[] = []
+    for (const [index, base] of template.tasks.entries()) {
+      const { index: _index, ...override } = taskOverrides.find(entry => entry.index === index) || { index }
+      const parsed = createTaskSchema.safeParse({ ...base, ...validatedData.overrides, ...override })
+      if (!parsed.success) {
+        errors.push({ index, errors: formatZodErrors(parsed.error) })
+        continue
+      }
+      const definitionError = await validateTaskDefinition(parsed.data)
+      if (definitionError) {
+        errors.push({ index, errors: [definitionError] })
+        continue
+      }
+      definitions.push(parsed.data)
+    }
+
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Some template tasks are invalid',
+        errors,
+      })
+    }
+
+    const tasks = await Task.create(definitions.map(definition => ({
+      ...toTaskFields(definition),
+      createdBy: req.user?.id,
+    })))
+
+    logInfo('Task template instantiated', { templateId, taskCount: tasks.length, createdBy: req.user?.email })
+
+    res.status(201).json({
+      success: true,
+      data: {
+        tasks,
+      },
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors,
+      })
+    }
+    next(error)
+  }
+})
+
 router.get('/:taskId', requirePermission('tasks', 'read'), async (req: AuthRequest, res, next) => {
   try {
     const { taskId } = req.params
@@ -75,16 +709,16 @@ router.post('/', requirePermission('tasks', 'write'), async (req: AuthRequest, r
   try {
     const validatedData = createTaskSchema.parse(req.body)
 
+    const definitionError = await validateTaskDefinition(validatedData)
+    if (definitionError) {
+      return res.status(400).json({
+        success: false,
+        message: definitionError,
+      })
+    }
+
     const task = await Task.create({
-      title: validatedData.title,
-      description: validatedData.description,
-      taskType: validatedData.taskType,
-      actionUrl: validatedData.actionUrl,
-      pointsReward: validatedData.pointsReward,
-      isActive: validatedData.isActive,
-      requiresVerification: validatedData.requiresVerification,
-      verificationMethod: validatedData.verificationMethod,
-      metadata: validatedData.metadata,
+      ...toTaskFields(validatedData),
       createdBy: req.user?.id,
     })
 
@@ -120,6 +754,16 @@ router.patch('/:taskId', requirePermission('tasks', 'write'), async (req: AuthRe
     if (validatedData.isActive !== undefined) updateData.isActive = validatedData.isActive
     if (validatedData.requiresVerification !== undefined) updateData.requiresVerification = validatedData.requiresVerification
     if (validatedData.verificationMethod !== undefined) updateData.verificationMethod = validatedData.verificationMethod
+    if (validatedData.minTier !== undefined) updateData.minTier = validatedData.minTier
+    if (validatedData.startsAt !== undefined) updateData.startsAt = toDate(validatedData.startsAt)
+    if (validatedData.endsAt !== undefined) updateData.endsAt = toDate(validatedData.endsAt)
+    if (validatedData.maxCompletions !== undefined) updateData.maxCompletions = validatedData.maxCompletions
+    if (validatedData.repeatPolicy !== undefined) updateData.repeatPolicy = validatedData.repeatPolicy
+    if (validatedData.recurrence !== undefined) updateData.recurrence = validatedData.recurrence
+    if (validatedData.prerequisites !== undefined) updateData.prerequisites = validatedData.prerequisites
+    if (validatedData.quiz !== undefined) updateData.quiz = validatedData.quiz
+    if (validatedData.duplicateLinkPolicy !== undefined) updateData.duplicateLinkPolicy = validatedData.duplicateLinkPolicy
+    if (validatedData.audience !== undefined) updateData.audience = toAudience(validatedData.audience)
     if (validatedData.metadata !== undefined) updateData.metadata = validatedData.metadata
 
     if (Object.keys(updateData).length === 0) {
@@ -129,7 +773,61 @@ router.patch('/:taskId', requirePermission('tasks', 'write'), async (req: AuthRe
       })
     }
 
-    const task = await Task.findByIdAndUpdate(taskId, updateData, { new: true })
+    if (!(await validateMinTier(validatedData.minTier))) {
+      return res.status(400).json({
+        success: false,
+        message: 'Unknown tier',
+      })
+    }
+
+    const existing = await Task.findById(taskId).select('startsAt endsAt verificationMethod metadata taskType quiz')
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Task not found',
+      })
+    }
+
+    const startsAt = 'startsAt' in updateData ? updateData.startsAt : existing.startsAt
+    const endsAt = 'endsAt' in updateData ? updateData.endsAt : existing.endsAt
+    if (!isValidWindow(startsAt, endsAt)) {
+      return res.status(400).json({
+        success: false,
+        message: 'endsAt must be after startsAt',
+      })
+    }
+
+    const verifierError = validateVerifierConfig(
+      validatedData.verificationMethod ?? existing.verificationMethod,
+      validatedData.metadata ?? existing.metadata
+    )
+    if (verifierError) {
+      return res.status(400).json({
+        success: false,
+        message: verifierError,
+      })
+    }
+
+    const taskType = validatedData.taskType ?? existing.taskType
+    const quiz = validatedData.quiz !== undefined ? validatedData.quiz : existing.quiz
+    if (taskType === 'quiz' && !quiz) {
+      return res.status(400).json({
+        success: false,
+        message: 'Quiz tasks need a quiz',
+      })
+    }
+
+    if (validatedData.prerequisites !== undefined) {
+      const prerequisiteError = await validatePrerequisites(validatedData.prerequisites, taskId)
+      if (prerequisiteError) {
+        return res.status(400).json({
+          success: false,
+          message: prerequisiteError,
+        })
+      }
+    }
+
+    let task = await Task.findByIdAndUpdate(taskId, updateData, { new: true })
 
     if (!task) {
       return res.status(404).json({
@@ -138,6 +836,12 @@ router.patch('/:taskId', requirePermission('tasks', 'write'), async (req: AuthRe
       })
     }
 
+    // A new cap has to account for completions made before it existed
+    if (validatedData.maxCompletions !== undefined) {
+      await taskService.recountCompletions(taskId)
+      task = await Task.findById(taskId)
+    }
+
     logInfo('Task updated', { taskId, updatedBy: req.user?.email })
 
     res.json({
@@ -184,8 +888,9 @@ router.get('/user/:userId/completions', requirePermission('tasks', 'read'), asyn
   try {
     const { userId } = req.params
 
+    // Recurring tasks have one record per period
     const completions = await UserTask.find({ userId })
-      .populate('taskId', 'title description taskType pointsReward')
+      .populate('taskId', 'title description taskType pointsReward recurrence')
       .sort({ createdAt: -1 })
       .lean()
 
@@ -195,6 +900,8 @@ router.get('/user/:userId/completions', requirePermission('tasks', 'read'), asyn
       description: (completion.taskId as any)?.description,
       task_type: (completion.taskId as any)?.taskType,
       points_reward: (completion.taskId as any)?.pointsReward,
+      recurrence: (completion.taskId as any)?.recurrence || 'none',
+      period: completion.periodKey,
     }))
 
     res.json({
@@ -228,15 +935,51 @@ router.get('/user/available', authenticate, async (req: AuthRequest, res, next)
       })
     }
 
-    // Get all active tasks - visible to all authenticated users (new and old)
-    const tasks = await Task.find({ isActive: true }).sort({ createdAt: -1 })
-    
     // Get user's task completions
     const userTasks = await UserTask.find({ userId: user._id })
+    const now = new Date()
+
+    // Only the record for the current period counts, so recurring tasks
+    // show as pending again once a new day or week starts
+    const findUserTask = (task: ITask) => {
+      const periodKey = taskService.getPeriodKey(task, now)
+      return userTasks.find(ut =>
+        ut.taskId.toString() === (task._id as mongoose.Types.ObjectId).toString() && ut.periodKey === periodKey
+      )
+    }
+
+    // Get all active tasks the user's tier unlocks and whose audience includes
+    // them. Tasks outside their schedule or out of slots are hidden unless the
+    // user already took part.
+    const tiers = await tierService.getTiers()
+    const userTier = await tierService.getUserTier(user)
+    const tasks = (await Task.find({ isActive: true }).sort({ createdAt: -1 }))
+      .filter(task => meetsTierRequirement(task, tiers, userTier))
+      .filter(task => taskService.matchesAudience(task, user))
+      .filter(task => taskService.getSchedule(task, now).state === 'open' || findUserTask(task))
+
+    // Tasks whose prerequisites (or earlier quest steps) are not done yet are
+    // listed as locked, with the tasks that unlock them
+    const quests = await Quest.find({ isActive: true }).select('steps').lean()
+    const completedTaskIds = new Set(
+      userTasks.filter(ut => COMPLETED_STATUSES.includes(ut.status)).map(ut => ut.taskId.toString())
+    )
+    const unmetByTask = new Map(tasks.map(task => [
+      (task._id as mongoose.Types.ObjectId).toString(),
+      taskService.getRequiredTaskIds(task, quests).filter(id => !completedTaskIds.has(id)),
+    ]))
+    const requiredTasks = await Task.find({ _id: { $in: [...unmetByTask.values()].flat() } }).select('title').lean()
+
+    // Every attempt on the current records, with decisions and appeals
+    const currentUserTasks = tasks.map(findUserTask).filter(userTask => !!userTask)
+    const timelines = await submissionService.getTimelines(
+      currentUserTasks.map(userTask => userTask!._id as mongoose.Types.ObjectId)
+    )
     
     // Map tasks with user completion status
     const tasksWithStatus = tasks.map((task: ITask) => {
-      const userTask = userTasks.find(ut => ut.taskId.toString() === (task._id as mongoose.Types.ObjectId).toString())
+      const userTask = findUserTask(task)
+      const unmet = unmetByTask.get((task._id as mongoose.Types.ObjectId).toString()) || []
       return {
         _id: task._id,
         title: task.title,
@@ -246,19 +989,349 @@ router.get('/user/available', authenticate, async (req: AuthRequest, res, next)
         pointsReward: task.pointsReward,
         requiresVerification: task.requiresVerification,
         verificationMethod: task.verificationMethod,
+        minTier: task.minTier,
+        repeatPolicy: task.repeatPolicy,
+        recurrence: task.recurrence,
+        periodKey: taskService.getPeriodKey(task, now),
+        locked: unmet.length > 0,
+        quiz: quizService.toPublicQuiz(task.quiz),
+        quizAttemptsUsed: task.taskType === 'quiz' ? quizService.getAttempts(userTask).length : undefined,
+        lockedBy: requiredTasks.filter(required => unmet.includes(required._id.toString())),
+        schedule: taskService.getSchedule(task, now),
         status: userTask?.status || 'pending',
         submissionLink: userTask?.submissionLink,
         submittedAt: userTask?.submittedAt,
         reviewedAt: userTask?.reviewedAt,
         rejectionReason: userTask?.rejectionReason,
         pointsAwarded: userTask?.pointsAwarded || false,
+        timeline: userTask ? timelines.get((userTask._id as mongoose.Types.ObjectId).toString()) || [] : [],
+      }
+    })
+
+    res.json({
+      success: true,
+      data: {
+        tasks: tasksWithStatus,
+      },
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Active quests with the user's progress through their steps
+router.get('/user/quests', authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const userEmail = req.user?.email
+    if (!userEmail) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      })
+    }
+
+    const user = await User.findOne({ email: userEmail })
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found',
+      })
+    }
+
+    const quests = await questService.getUserQuests(user._id as mongoose.Types.ObjectId)
+
+    res.json({
+      success: true,
+      data: {
+        quests,
+      },
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// User's own task history, one entry per period for recurring tasks
+router.get('/user/history', authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const userEmail = req.user?.email
+    if (!userEmail) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      })
+    }
+
+    const user = await User.findOne({ email: userEmail })
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found',
+      })
+    }
+
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200)
+
+    const userTasks = await UserTask.find({ userId: user._id })
+      .populate('taskId', 'title taskType pointsReward recurrence')
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .lean()
+
+    const history = userTasks.map(userTask => ({
+      _id: userTask._id,
+      taskId: (userTask.taskId as any)?._id,
+      title: (userTask.taskId as any)?.title,
+      taskType: (userTask.taskId as any)?.taskType,
+      pointsReward: (userTask.taskId as any)?.pointsReward,
+      recurrence: (userTask.taskId as any)?.recurrence || 'none',
+      periodKey: userTask.periodKey,
+      status: userTask.status,
+      submittedAt: userTask.submittedAt,
+      completedAt: userTask.completedAt,
+      rejectionReason: userTask.rejectionReason,
+      pointsAwarded: userTask.pointsAwarded,
+    }))
+
+    res.json({
+      success: true,
+      data: {
+        history,
+      },
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Submit task completion with link (for review)
+router.post('/:taskId/submit', authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const { taskId } = req.params
+    const { submissionLink, answer, code } = req.body
+    const userEmail = req.user?.email
+
+    if (!userEmail) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      })
+    }
+
+    if (submissionLink) {
+      // Validate URL
+      try {
+        new URL(submissionLink)
+      } catch {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid URL format',
+        })
+      }
+    }
+
+    const user = await User.findOne({ email: userEmail })
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found',
+      })
+    }
+
+    const task = await Task.findOne({ _id: taskId, isActive: true })
+    if (!task) {
+      return res.status(404).json({
+        success: false,
+        message: 'Task not found or inactive',
+      })
+    }
+
+    const accessError = await checkTaskAccess(task, user)
+    if (accessError) {
+      return res.status(403).json({
+        success: false,
+        message: accessError,
+      })
+    }
+
+    const unmetPrerequisites = await taskService.getUnmetPrerequisites(task, user._id as mongoose.Types.ObjectId)
+    if (unmetPrerequisites.length > 0) {
+      return res.status(403).json({
+        success: false,
+        message: 'Complete the required tasks first',
+        data: {
+          requiredTasks: unmetPrerequisites,
+        },
+      })
+    }
+
+    const closedReason = taskService.getClosedReason(task)
+    if (closedReason) {
+      return res.status(400).json({
+        success: false,
+        message: closedReason,
+      })
+    }
+
+    const periodKey = taskService.getPeriodKey(task)
+    let userTask = await UserTask.findOne({ userId: user._id, taskId: task._id, periodKey })
+
+    const repeatBlockReason = taskService.getRepeatBlockReason(task, userTask)
+    if (repeatBlockReason) {
+      return res.status(400).json({
+        success: false,
+        message: repeatBlockReason,
+      })
+    }
+
+    if (task.taskType === 'quiz') {
+      return res.status(400).json({
+        success: false,
+        message: 'Quiz tasks are completed through the quiz endpoint',
+      })
+    }
+
+    // Manually reviewed tasks and link-based verifiers need a link
+    const verifier = verifierRegistry.get(task.verificationMethod)
+    if ((!verifier || verifier.requiresLink) && !submissionLink) {
+      return res.status(400).json({
+        success: false,
+        message: 'Submission link is required',
+      })
+    }
+
+    // The same link from several accounts is blocked or sent to manual
+    // review, depending on the task's policy
+    const normalizedLink = submissionLink ? normalizeSubmissionLink(submissionLink) : null
+    const linkReusedBy = normalizedLink && task.duplicateLinkPolicy !== 'allow'
+      ? await submissionService.findLinkReuse(task._id as mongoose.Types.ObjectId, normalizedLink, user._id as mongoose.Types.ObjectId)
+      : []
+    const duplicateLink = linkReusedBy.length > 0
+
+    if (duplicateLink) {
+      logWarn('Submission link already used by another account', {
+        taskId,
+        userId: (user._id as mongoose.Types.ObjectId).toString(),
+        normalizedLink,
+        otherAccounts: linkReusedBy.length,
+        policy: task.duplicateLinkPolicy,
+      })
+
+      if (task.duplicateLinkPolicy === 'block') {
+        return res.status(400).json({
+          success: false,
+          message: 'This link has already been submitted by another account',
+        })
+      }
+    }
+
+    // Answers and codes can be guessed, so their verifiers limit how often a
+    // user is checked. The attempt is counted before checking, atomically,
+    // so parallel requests cannot go over the limit.
+    const attemptLimit = verifierRegistry.getAttemptLimit(task)
+    if (attemptLimit && userTask) {
+      const reserved = await UserTask.findOneAndUpdate(
+        { _id: userTask._id, status: userTask.status, verifierAttempts: { $lt: attemptLimit } },
+        { $inc: { verifierAttempts: 1 } },
+        { new: true }
+      )
+      if (!reserved) {
+        return res.status(400).json({
+          success: false,
+          message: 'No attempts left for this task',
+        })
       }
+      userTask = reserved
+    }
+
+    // Decided submissions skip the manual queue; inconclusive ones go to it.
+    // A flagged link is never approved automatically.
+    let verification = await verifierRegistry.verify(task, user, { submissionLink, answer, code })
+    if (duplicateLink && verification.outcome === 'approved') {
+      verification = { ...verification, outcome: 'inconclusive', reason: 'Link already used by another account' }
+    }
+    const approved = verification.outcome === 'approved'
+    const rejected = verification.outcome === 'rejected'
+
+    if (approved && !(await taskService.reserveCompletionSlot(task._id as mongoose.Types.ObjectId))) {
+      return res.status(400).json({
+        success: false,
+        message: 'This task has reached its completion limit',
+      })
+    }
+
+    const now = new Date()
+    const submission = {
+      status: approved ? 'approved' : rejected ? 'rejected' : 'submitted',
+      submissionLink: submissionLink || null,
+      normalizedLink,
+      duplicateLink,
+      submittedAt: now,
+      reviewedAt: approved || rejected ? now : null,
+      reviewedBy: null,
+      completedAt: approved ? now : null,
+      rejectionReason: rejected ? verification.reason : null,
+      verificationData: {
+        method: task.verificationMethod || null,
+        outcome: verification.outcome,
+        reason: verification.reason,
+        ...verification.data,
+        checkedAt: now,
+      },
+    }
+
+    try {
+      if (userTask) {
+        userTask.set(submission)
+        await userTask.save()
+      } else {
+        userTask = await UserTask.create({
+          userId: user._id,
+          taskId: task._id,
+          periodKey,
+          verifierAttempts: attemptLimit ? 1 : 0,
+          ...submission,
+        })
+      }
+    } catch (error) {
+      if (approved) {
+        await taskService.releaseCompletionSlot(task._id as mongoose.Types.ObjectId)
+      }
+      throw error
+    }
+
+    // Every attempt is kept with its decision, so resubmitting after a
+    // rejection does not lose the earlier one
+    await submissionService.recordAttempt(
+      userTask,
+      approved || rejected
+        ? { decision: approved ? 'approved' : 'rejected', reason: verification.reason, verification: submission.verificationData }
+        : undefined
+    )
+
+    if (approved) {
+      await submissionService.rewardCompletion(userTask, task, `Task completed: ${task.title}`)
+    }
+
+    const timelines = await submissionService.getTimelines([userTask._id as mongoose.Types.ObjectId])
+
+    logInfo('Task submission received', { 
+      taskId, 
+      userId: (user._id as mongoose.Types.ObjectId).toString(),
+      submissionLink,
+      verification: verification.outcome,
     })
 
     res.json({
       success: true,
+      message: approved
+        ? 'Task verified and completed'
+        : rejected
+          ? `Task submission rejected: ${verification.reason}`
+          : 'Task submitted for review',
       data: {
-        tasks: tasksWithStatus,
+        ...userTask.toObject(),
+        timeline: timelines.get((userTask._id as mongoose.Types.ObjectId).toString()) || [],
       },
     })
   } catch (error) {
@@ -266,11 +1339,14 @@ router.get('/user/available', authenticate, async (req: AuthRequest, res, next)
   }
 })
 
-// Submit task completion with link (for review)
-router.post('/:taskId/submit', authenticate, async (req: AuthRequest, res, next) => {
+const appealSchema = z.object({
+  note: z.string().trim().min(1).max(2000),
+})
+
+// Appeal the latest rejected attempt on a task
+router.post('/:taskId/appeal', authenticate, async (req: AuthRequest, res, next) => {
   try {
     const { taskId } = req.params
-    const { submissionLink } = req.body
     const userEmail = req.user?.email
 
     if (!userEmail) {
@@ -280,23 +1356,80 @@ router.post('/:taskId/submit', authenticate, async (req: AuthRequest, res, next)
       })
     }
 
-    if (!submissionLink) {
-      return res.status(400).json({
+    const { note } = appealSchema.parse(req.body)
+
+    const user = await User.findOne({ email: userEmail })
+    if (!user) {
+      return res.status(404).json({
         success: false,
-        message: 'Submission link is required',
+        message: 'User not found',
       })
     }
 
-    // Validate URL
-    try {
-      new URL(submissionLink)
-    } catch {
+    const userTask = await UserTask.findOne({ userId: user._id, taskId }).sort({ createdAt: -1 })
+    if (!userTask) {
+      return res.status(404).json({
+        success: false,
+        message: 'No submission found for this task',
+      })
+    }
+
+    const appealed = await submissionService.fileAppeal(userTask, note)
+    const timelines = await submissionService.getTimelines([appealed._id as mongoose.Types.ObjectId])
+
+    logInfo('Task submission appealed', {
+      taskId,
+      userId: (user._id as mongoose.Types.ObjectId).toString(),
+      submissionId: (appealed._id as mongoose.Types.ObjectId).toString(),
+    })
+
+    res.json({
+      success: true,
+      message: 'Appeal filed',
+      data: {
+        ...appealed.toObject(),
+        timeline: timelines.get((appealed._id as mongoose.Types.ObjectId).toString()) || [],
+      },
+    })
+  } catch (error) {
+    if (error instanceof SubmissionError) {
+      return res.status(error.status).json({
+        success: false,
+        message: error.message,
+      })
+    }
+    if (error instanceof z.ZodError) {
       return res.status(400).json({
         success: false,
-        message: 'Invalid URL format',
+        message: 'Validation error',
+        errors: error.errors,
+      })
+    }
+    next(error)
+  }
+})
+
+const quizAnswersSchema = z.object({
+  // One entry per question: the selected option index, or indexes for
+  // questions with several correct options
+  answers: z.array(z.union([z.number().int().min(0), z.array(z.number().int().min(0)).max(10)])).min(1).max(50),
+})
+
+// Answer a quiz task; scoring happens here so answers never leave the server
+router.post('/:taskId/quiz', authenticate, async (req: AuthRequest, res, next) => {
+  try {
+    const { taskId } = req.params
+    const userEmail = req.user?.email
+
+    if (!userEmail) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
       })
     }
 
+    const { answers } = quizAnswersSchema.parse(req.body)
+
     const user = await User.findOne({ email: userEmail })
     if (!user) {
       return res.status(404).json({
@@ -305,50 +1438,96 @@ router.post('/:taskId/submit', authenticate, async (req: AuthRequest, res, next)
       })
     }
 
-    const task = await Task.findOne({ _id: taskId, isActive: true })
+    const task = await Task.findOne({ _id: taskId, isActive: true, taskType: 'quiz' })
     if (!task) {
       return res.status(404).json({
         success: false,
-        message: 'Task not found or inactive',
+        message: 'Quiz not found or inactive',
+      })
+    }
+
+    const accessError = await checkTaskAccess(task, user)
+    if (accessError) {
+      return res.status(403).json({
+        success: false,
+        message: accessError,
       })
     }
 
-    let userTask = await UserTask.findOne({ userId: user._id, taskId: task._id })
+    const unmetPrerequisites = await taskService.getUnmetPrerequisites(task, user._id as mongoose.Types.ObjectId)
+    if (unmetPrerequisites.length > 0) {
+      return res.status(403).json({
+        success: false,
+        message: 'Complete the required tasks first',
+        data: {
+          requiredTasks: unmetPrerequisites,
+        },
+      })
+    }
 
-    if (userTask && ['approved', 'completed'].includes(userTask.status)) {
+    const closedReason = taskService.getClosedReason(task)
+    if (closedReason) {
       return res.status(400).json({
         success: false,
-        message: 'Task already completed',
+        message: closedReason,
       })
     }
 
-    if (userTask) {
-      userTask.status = 'submitted'
-      userTask.submissionLink = submissionLink
-      userTask.submittedAt = new Date()
-      await userTask.save()
-    } else {
-      userTask = await UserTask.create({
-        userId: user._id,
-        taskId: task._id,
-        status: 'submitted',
-        submissionLink,
-        submittedAt: new Date(),
+    const existing = await UserTask.findOne({ userId: user._id, taskId: task._id, periodKey: taskService.getPeriodKey(task) })
+    const repeatBlockReason = taskService.getRepeatBlockReason(task, existing)
+    if (repeatBlockReason) {
+      return res.status(400).json({
+        success: false,
+        message: repeatBlockReason,
       })
     }
 
-    logInfo('Task submission received', { 
-      taskId, 
+    const { userTask, attempt, attemptsLeft } = await quizService.submitAttempt(
+      task,
+      user._id as mongoose.Types.ObjectId,
+      answers.map(answer => (Array.isArray(answer) ? answer : [answer]))
+    )
+
+    if (attempt.passed) {
+      await submissionService.rewardCompletion(userTask, task, `Quiz passed: ${task.title}`)
+    }
+
+    logInfo('Quiz attempt recorded', {
+      taskId,
       userId: (user._id as mongoose.Types.ObjectId).toString(),
-      submissionLink 
+      attempt: attempt.attempt,
+      scorePercent: attempt.scorePercent,
+      passed: attempt.passed,
     })
 
     res.json({
       success: true,
-      message: 'Task submitted for review',
-      data: userTask,
+      message: attempt.passed ? 'Quiz passed' : 'Quiz not passed',
+      data: {
+        passed: attempt.passed,
+        correct: attempt.correct,
+        total: attempt.total,
+        scorePercent: attempt.scorePercent,
+        passPercent: task.quiz!.passPercent,
+        attemptsLeft,
+        status: userTask.status,
+        pointsAwarded: userTask.pointsAwarded,
+      },
     })
   } catch (error) {
+    if (error instanceof QuizError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      })
+    }
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors,
+      })
+    }
     next(error)
   }
 })
@@ -382,54 +1561,91 @@ router.post('/:taskId/complete', authenticate, async (req: AuthRequest, res, nex
       })
     }
 
-    // If task requires verification, it must be submitted first
-    if (task.requiresVerification) {
+    const accessError = await checkTaskAccess(task, user)
+    if (accessError) {
+      return res.status(403).json({
+        success: false,
+        message: accessError,
+      })
+    }
+
+    const unmetPrerequisites = await taskService.getUnmetPrerequisites(task, user._id as mongoose.Types.ObjectId)
+    if (unmetPrerequisites.length > 0) {
+      return res.status(403).json({
+        success: false,
+        message: 'Complete the required tasks first',
+        data: {
+          requiredTasks: unmetPrerequisites,
+        },
+      })
+    }
+
+    if (task.taskType === 'quiz') {
+      return res.status(400).json({
+        success: false,
+        message: 'Quiz tasks are completed through the quiz endpoint',
+      })
+    }
+
+    // Tasks that need review or have an automatic verifier must be submitted
+    if (task.requiresVerification || verifierRegistry.get(task.verificationMethod)) {
       return res.status(400).json({
         success: false,
         message: 'This task requires submission for review. Please use the submit endpoint.',
       })
     }
 
-    let userTask = await UserTask.findOne({ userId: user._id, taskId: task._id })
+    const closedReason = taskService.getClosedReason(task)
+    if (closedReason) {
+      return res.status(400).json({
+        success: false,
+        message: closedReason,
+      })
+    }
+
+    const periodKey = taskService.getPeriodKey(task)
+    let userTask = await UserTask.findOne({ userId: user._id, taskId: task._id, periodKey })
 
-    if (userTask && ['completed', 'approved'].includes(userTask.status)) {
+    const repeatBlockReason = taskService.getRepeatBlockReason(task, userTask)
+    if (repeatBlockReason) {
       return res.status(400).json({
         success: false,
-        message: 'Task already completed',
+        message: repeatBlockReason,
       })
     }
 
-    const verificationData = req.body.verificationData || {}
+    if (!(await taskService.reserveCompletionSlot(task._id as mongoose.Types.ObjectId))) {
+      return res.status(400).json({
+        success: false,
+        message: 'This task has reached its completion limit',
+      })
+    }
 
-    if (userTask) {
-      userTask.status = 'completed'
-      userTask.completedAt = new Date()
-      userTask.verificationData = verificationData
-      await userTask.save()
-    } else {
-      userTask = await UserTask.create({
-        userId: user._id,
-        taskId: task._id,
-        status: 'completed',
-        completedAt: new Date(),
-        verificationData,
-      })
-    }
-
-    if (task.pointsReward > 0) {
-      const pointsResult = await awardPoints(
-        (user._id as mongoose.Types.ObjectId).toString(),
-        task.pointsReward,
-        `Task completed: ${task.title}`,
-        { taskId: taskId, taskType: task.taskType }
-      )
+    const verificationData = req.body.verificationData || {}
 
-      if (pointsResult.success) {
-        userTask.pointsAwarded = true
+    try {
+      if (userTask) {
+        userTask.status = 'completed'
+        userTask.completedAt = new Date()
+        userTask.verificationData = verificationData
         await userTask.save()
+      } else {
+        userTask = await UserTask.create({
+          userId: user._id,
+          taskId: task._id,
+          periodKey,
+          status: 'completed',
+          completedAt: new Date(),
+          verificationData,
+        })
       }
+    } catch (error) {
+      await taskService.releaseCompletionSlot(task._id as mongoose.Types.ObjectId)
+      throw error
     }
 
+    await submissionService.rewardCompletion(userTask, task, `Task completed: ${task.title}`)
+
     res.json({
       success: true,
       message: 'Task completed successfully',
@@ -441,66 +1657,278 @@ router.post('/:taskId/complete', authenticate, async (req: AuthRequest, res, nex
 })
 
 // Admin routes for reviewing submissions
+const submissionQueueSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  taskId: z.string().refine(mongoose.isValidObjectId, 'Invalid task id').optional(),
+  userId: z.string().refine(mongoose.isValidObjectId, 'Invalid user id').optional(),
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  claim: z.enum(['mine', 'unclaimed', 'available', 'all']).default('all'),
+  duplicateLink: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+  sort: z.enum(['newest', 'oldest']).default('newest'),
+})
+
+const sendSubmissionError = (res: express.Response, error: SubmissionError) => {
+  return res.status(error.status).json({
+    success: false,
+    message: error.message,
+  })
+}
+
 router.get('/submissions/pending', requireAdmin, requirePermission('tasks', 'read'), async (req: AuthRequest, res, next) => {
   try {
-    const submissions = await UserTask.find({ status: 'submitted' })
-      .populate('userId', 'email name')
-      .populate('taskId', 'title description taskType pointsReward')
-      .sort({ submittedAt: -1 })
-      .lean()
+    const query = submissionQueueSchema.parse(req.query)
+
+    const { submissions, total } = await submissionService.listQueue(
+      {
+        taskId: query.taskId,
+        userId: query.userId,
+        from: query.from ? new Date(query.from) : undefined,
+        to: query.to ? new Date(query.to) : undefined,
+        claim: query.claim,
+        duplicateLink: query.duplicateLink,
+        sort: query.sort,
+      },
+      req.user!.id,
+      query.page,
+      query.limit
+    )
 
     res.json({
       success: true,
       data: {
         submissions,
+        pagination: {
+          page: query.page,
+          limit: query.limit,
+          total,
+          pages: Math.ceil(total / query.limit),
+        },
       },
     })
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors,
+      })
+    }
     next(error)
   }
 })
 
-router.post('/submissions/:submissionId/approve', requireAdmin, requirePermission('tasks', 'write'), async (req: AuthRequest, res, next) => {
+// Appeals are a separate queue; the reviewer who rejected an attempt cannot decide its appeal
+router.get('/submissions/appeals', requireAdmin, requirePermission('tasks', 'read'), async (req: AuthRequest, res, next) => {
+  try {
+    const query = submissionQueueSchema.parse(req.query)
+
+    const { submissions, total } = await submissionService.listQueue(
+      {
+        status: 'appealed',
+        taskId: query.taskId,
+        userId: query.userId,
+        from: query.from ? new Date(query.from) : undefined,
+        to: query.to ? new Date(query.to) : undefined,
+        claim: query.claim,
+        duplicateLink: query.duplicateLink,
+        sort: query.sort,
+      },
+      req.user!.id,
+      query.page,
+      query.limit
+    )
+
+    res.json({
+      success: true,
+      data: {
+        appeals: submissions,
+        pagination: {
+          page: query.page,
+          limit: query.limit,
+          total,
+          pages: Math.ceil(total / query.limit),
+        },
+      },
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors,
+      })
+    }
+    next(error)
+  }
+})
+
+router.post('/submissions/:submissionId/appeal/approve', requireAdmin, requirePermission('tasks', 'write'), async (req: AuthRequest, res, next) => {
   try {
     const { submissionId } = req.params
-    const userTask = await UserTask.findById(submissionId).populate('taskId')
+    const { reason } = req.body
 
-    if (!userTask) {
-      return res.status(404).json({
+    const userTask = await submissionService.decideAppeal(submissionId, req.user!.id, 'approved', reason)
+
+    logInfo('Task appeal approved', { submissionId, approvedBy: req.user?.email })
+
+    res.json({
+      success: true,
+      message: 'Appeal approved',
+      data: userTask,
+    })
+  } catch (error) {
+    if (error instanceof SubmissionError) {
+      return sendSubmissionError(res, error)
+    }
+    next(error)
+  }
+})
+
+router.post('/submissions/:submissionId/appeal/reject', requireAdmin, requirePermission('tasks', 'write'), async (req: AuthRequest, res, next) => {
+  try {
+    const { submissionId } = req.params
+    const { reason } = req.body
+
+    const userTask = await submissionService.decideAppeal(submissionId, req.user!.id, 'rejected', reason)
+
+    logInfo('Task appeal rejected', { submissionId, rejectedBy: req.user?.email, reason })
+
+    res.json({
+      success: true,
+      message: 'Appeal rejected',
+      data: userTask,
+    })
+  } catch (error) {
+    if (error instanceof SubmissionError) {
+      return sendSubmissionError(res, error)
+    }
+    next(error)
+  }
+})
+
+const bulkReviewSchema = z.object({
+  submissionIds: z.array(z.string().refine(mongoose.isValidObjectId, 'Invalid submission id')).min(1).max(100),
+  rejectionReason: z.string().max(1000).optional(),
+})
+
+// Bulk routes are declared before /submissions/:submissionId/* so "bulk" is not taken for an id
+router.post('/submissions/bulk/approve', requireAdmin, requirePermission('tasks', 'write'), async (req: AuthRequest, res, next) => {
+  try {
+    const { submissionIds } = bulkReviewSchema.parse(req.body)
+    const reviewerId = req.user!.id
+
+    const results = await submissionService.bulkReview(
+      [...new Set(submissionIds)],
+      submissionId => submissionService.approve(submissionId, reviewerId)
+    )
+
+    logInfo('Bulk approve processed', {
+      requested: submissionIds.length,
+      approved: results.filter(result => result.success).length,
+      approvedBy: req.user?.email,
+    })
+
+    res.json({
+      success: true,
+      data: {
+        results,
+      },
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
         success: false,
-        message: 'Submission not found',
+        message: 'Validation error',
+        errors: error.errors,
       })
     }
+    next(error)
+  }
+})
 
-    if (userTask.status !== 'submitted') {
+router.post('/submissions/bulk/reject', requireAdmin, requirePermission('tasks', 'write'), async (req: AuthRequest, res, next) => {
+  try {
+    const { submissionIds, rejectionReason } = bulkReviewSchema.parse(req.body)
+    const reviewerId = req.user!.id
+
+    const results = await submissionService.bulkReview(
+      [...new Set(submissionIds)],
+      submissionId => submissionService.reject(submissionId, reviewerId, rejectionReason)
+    )
+
+    logInfo('Bulk reject processed', {
+      requested: submissionIds.length,
+      rejected: results.filter(result => result.success).length,
+      rejectedBy: req.user?.email,
+    })
+
+    res.json({
+      success: true,
+      data: {
+        results,
+      },
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
       return res.status(400).json({
         success: false,
-        message: 'Submission is not in submitted status',
+        message: 'Validation error',
+        errors: error.errors,
       })
     }
+    next(error)
+  }
+})
+
+// Lock a submission to the current reviewer for a few minutes
+router.post('/submissions/:submissionId/claim', requireAdmin, requirePermission('tasks', 'write'), async (req: AuthRequest, res, next) => {
+  try {
+    const { submissionId } = req.params
+    const minutes = parseInt(req.body?.minutes) || DEFAULT_CLAIM_MINUTES
+
+    const userTask = await submissionService.claim(submissionId, req.user!.id, minutes)
 
-    userTask.status = 'approved'
-    userTask.reviewedAt = new Date()
-    if (req.user?.id) {
-      userTask.reviewedBy = new mongoose.Types.ObjectId(String(req.user.id))
+    res.json({
+      success: true,
+      message: 'Submission claimed',
+      data: {
+        submissionId,
+        claimExpiresAt: userTask.claimExpiresAt,
+      },
+    })
+  } catch (error) {
+    if (error instanceof SubmissionError) {
+      return sendSubmissionError(res, error)
     }
-    userTask.completedAt = new Date()
-    await userTask.save()
+    next(error)
+  }
+})
 
-    const task = userTask.taskId as any
-    if (task.pointsReward > 0) {
-      const pointsResult = await awardPoints(
-        (userTask.userId as mongoose.Types.ObjectId).toString(),
-        task.pointsReward,
-        `Task approved: ${task.title}`,
-        { taskId: task._id.toString(), taskType: task.taskType }
-      )
+router.post('/submissions/:submissionId/release', requireAdmin, requirePermission('tasks', 'write'), async (req: AuthRequest, res, next) => {
+  try {
+    const { submissionId } = req.params
 
-      if (pointsResult.success) {
-        userTask.pointsAwarded = true
-        await userTask.save()
-      }
+    await submissionService.release(submissionId, req.user!.id)
+
+    res.json({
+      success: true,
+      message: 'Submission released',
+    })
+  } catch (error) {
+    if (error instanceof SubmissionError) {
+      return sendSubmissionError(res, error)
     }
+    next(error)
+  }
+})
+
+router.post('/submissions/:submissionId/approve', requireAdmin, requirePermission('tasks', 'write'), async (req: AuthRequest, res, next) => {
+  try {
+    const { submissionId } = req.params
+
+    const userTask = await submissionService.approve(submissionId, req.user!.id)
 
     logInfo('Task submission approved', { 
       submissionId, 
@@ -513,6 +1941,9 @@ router.post('/submissions/:submissionId/approve', requireAdmin, requirePermissio
       data: userTask,
     })
   } catch (error) {
+    if (error instanceof SubmissionError) {
+      return sendSubmissionError(res, error)
+    }
     next(error)
   }
 })
@@ -522,29 +1953,7 @@ router.post('/submissions/:submissionId/reject', requireAdmin, requirePermission
     const { submissionId } = req.params
     const { rejectionReason } = req.body
 
-    const userTask = await UserTask.findById(submissionId)
-
-    if (!userTask) {
-      return res.status(404).json({
-        success: false,
-        message: 'Submission not found',
-      })
-    }
-
-    if (userTask.status !== 'submitted') {
-      return res.status(400).json({
-        success: false,
-        message: 'Submission is not in submitted status',
-      })
-    }
-
-    userTask.status = 'rejected'
-    userTask.reviewedAt = new Date()
-    if (req.user?.id) {
-      userTask.reviewedBy = new mongoose.Types.ObjectId(String(req.user.id))
-    }
-    userTask.rejectionReason = rejectionReason || 'Submission does not meet requirements'
-    await userTask.save()
+    const userTask = await submissionService.reject(submissionId, req.user!.id, rejectionReason)
 
     logInfo('Task submission rejected', { 
       submissionId, 
@@ -558,6 +1967,9 @@ router.post('/submissions/:submissionId/reject', requireAdmin, requirePermission
       data: userTask,
     })
   } catch (error) {
+    if (error instanceof SubmissionError) {
+      return sendSubmissionError(res, error)
+    }
     next(error)
   }
 })
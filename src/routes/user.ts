@@ -2,9 +2,20 @@ import express from 'express'
 import mongoose from 'mongoose'
 import { User } from '../models/User.js'
 import { OnboardingEvent } from '../models/OnboardingEvent.js'
+import { Reward } from '../models/Reward.js'
+import { Redemption } from '../models/Redemption.js'
+import { Season } from '../models/Season.js'
+import { SeasonStanding } from '../models/SeasonStanding.js'
+import { ReferralCampaign } from '../models/ReferralCampaign.js'
+import { seasonService } from '../services/seasonService.js'
+import { achievementService } from '../services/achievementService.js'
+import { checkInService, CheckInError } from '../services/checkInService.js'
+import { tierService } from '../services/tierService.js'
+import { domainEvents } from '../services/domainEvents.js'
 import { authenticate, AuthRequest } from '../middleware/auth.js'
 import { checkBanStatus } from '../middleware/banCheck.js'
-import { awardPoints } from '../utils/pointsManager.js'
+import { awardPoints, deductPoints, getPointsHistory } from '../utils/pointsManager.js'
+import { getRewardRule, ruleMetadata } from '../utils/rewardRules.js'
 import { logError, logWarn } from '../utils/logger.js'
 import { z } from 'zod'
 
@@ -83,6 +94,20 @@ router.get('/dashboard/:email', authenticate, checkBanStatus, async (req: AuthRe
       }
     }
 
+    // Current season score (lifetime points are in user.points)
+    const currentSeason = await seasonService.getCurrentSeason()
+    const season = currentSeason
+      ? {
+          id: currentSeason._id,
+          name: currentSeason.name,
+          startsAt: currentSeason.startsAt,
+          endsAt: currentSeason.endsAt,
+          score: await seasonService.getUserSeasonScore(currentSeason, (user._id as mongoose.Types.ObjectId).toString()),
+        }
+      : null
+
+    const badges = await achievementService.getUserBadges(user._id as mongoose.Types.ObjectId)
+
     // Get onboarding events
     const events = await OnboardingEvent.find({ userId: user._id })
       .sort({ createdAt: -1 })
@@ -112,6 +137,10 @@ router.get('/dashboard/:email', authenticate, checkBanStatus, async (req: AuthRe
           banReason,
           bannedUntil,
         },
+        badges,
+        tier: await tierService.describe(user),
+        streak: checkInService.getStreakState(user),
+        season,
         events,
       },
     })
@@ -150,6 +179,14 @@ router.post('/renopays-tag', authenticate, checkBanStatus, async (req: AuthReque
       })
     }
 
+    // Tags double as referral codes, so they cannot reuse a campaign code
+    if (await ReferralCampaign.exists({ code: tag.toLowerCase() })) {
+      return res.status(400).json({
+        success: false,
+        message: 'This tag is reserved. Please choose a different tag.',
+      })
+    }
+
     // Prevent users from using someone else's tag
     if (user.renopaysTag && user.renopaysTag !== tag.toLowerCase()) {
       return res.status(400).json({
@@ -171,26 +208,29 @@ router.post('/renopays-tag', authenticate, checkBanStatus, async (req: AuthReque
     await user.save()
 
     // Award points securely using points manager
-    const pointsResult = await awardPoints(
-      (user._id as mongoose.Types.ObjectId).toString(),
-      100,
-      'Renopays tag created',
-      { tag: tag.toLowerCase() }
-    )
+    const tagRule = await getRewardRule('renopays_tag_created')
+    const pointsResult = tagRule.points > 0
+      ? await awardPoints(
+          (user._id as mongoose.Types.ObjectId).toString(),
+          tagRule.points,
+          'Renopays tag created',
+          { tag: tag.toLowerCase(), ...ruleMetadata(tagRule) },
+          `renopays_tag:${(user._id as mongoose.Types.ObjectId).toString()}`
+        )
+      : { success: true, newBalance: user.points || 0 }
 
     if (!pointsResult.success) {
       logWarn('Failed to award points for tag creation', { userId: (user._id as mongoose.Types.ObjectId).toString(), email: user.email })
     }
 
-    // Check referral completion after tag creation
-    // This will be called automatically when verifications complete
-
     // Log event
     await OnboardingEvent.create({
       userId: user._id,
       eventType: 'renopays_tag_created',
-      eventData: { tag: tag.toLowerCase(), pointsAwarded: 100 },
+      eventData: { tag: tag.toLowerCase(), pointsAwarded: tagRule.points },
     })
+    achievementService.handleEvent((user._id as mongoose.Types.ObjectId).toString(), 'renopays_tag_created')
+    domainEvents.publish('renopays_tag_created', (user._id as mongoose.Types.ObjectId).toString(), { tag: user.renopaysTag })
 
     res.json({
       success: true,
@@ -244,12 +284,16 @@ router.post('/verify-telegram', authenticate, checkBanStatus, async (req: AuthRe
     await user.save()
 
     // Award points securely using points manager
-    const pointsResult = await awardPoints(
-      (user._id as mongoose.Types.ObjectId).toString(),
-      200,
-      'Telegram verified',
-      { username: username.toLowerCase() }
-    )
+    const telegramRule = await getRewardRule('telegram_verified')
+    const pointsResult = telegramRule.points > 0
+      ? await awardPoints(
+          (user._id as mongoose.Types.ObjectId).toString(),
+          telegramRule.points,
+          'Telegram verified',
+          { username: username.toLowerCase(), ...ruleMetadata(telegramRule) },
+          `telegram_verified:${(user._id as mongoose.Types.ObjectId).toString()}`
+        )
+      : { success: true, newBalance: user.points || 0 }
 
     if (!pointsResult.success) {
       logWarn('Failed to award points for Telegram verification', { userId: (user._id as mongoose.Types.ObjectId).toString(), email: user.email })
@@ -259,8 +303,10 @@ router.post('/verify-telegram', authenticate, checkBanStatus, async (req: AuthRe
     await OnboardingEvent.create({
       userId: user._id,
       eventType: 'telegram_verified',
-      eventData: { username: username.toLowerCase(), pointsAwarded: 200 },
+      eventData: { username: username.toLowerCase(), pointsAwarded: telegramRule.points },
     })
+    achievementService.handleEvent((user._id as mongoose.Types.ObjectId).toString(), 'telegram_verified')
+    domainEvents.publish('telegram_verified', (user._id as mongoose.Types.ObjectId).toString(), { username: user.telegramUsername })
 
     res.json({
       success: true,
@@ -282,6 +328,415 @@ router.post('/verify-telegram', authenticate, checkBanStatus, async (req: AuthRe
   }
 })
 
+// Points history (earning and spending, newest first)
+router.get('/points/history', authenticate, checkBanStatus, async (req: AuthRequest, res, next) => {
+  try {
+    const userEmail = req.user?.email
+    if (!userEmail) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      })
+    }
+
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200)
+    const history = await getPointsHistory(userEmail, limit)
+
+    res.json({
+      success: true,
+      data: {
+        history,
+      },
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Rewards catalog - only rewards that are active and inside their window
+router.get('/rewards', authenticate, checkBanStatus, async (req: AuthRequest, res, next) => {
+  try {
+    const now = new Date()
+
+    const rewards = await Reward.find({
+      isActive: true,
+      $and: [
+        { $or: [{ startsAt: null }, { startsAt: { $lte: now } }] },
+        { $or: [{ endsAt: null }, { endsAt: { $gt: now } }] },
+      ],
+    })
+      .sort({ cost: 1 })
+      .lean()
+
+    res.json({
+      success: true,
+      data: {
+        rewards,
+      },
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+router.post('/rewards/:rewardId/redeem', authenticate, checkBanStatus, async (req: AuthRequest, res, next) => {
+  try {
+    const { rewardId } = req.params
+    const userEmail = req.user?.email
+    if (!userEmail) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      })
+    }
+
+    const user = await User.findOne({ email: userEmail.toLowerCase() })
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found',
+      })
+    }
+
+    const reward = await Reward.findOne({ _id: rewardId, isActive: true })
+    const now = new Date()
+    if (!reward || (reward.startsAt && reward.startsAt > now) || (reward.endsAt && reward.endsAt <= now)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Reward not found or not available',
+      })
+    }
+
+    if ((user.points || 0) < reward.cost) {
+      return res.status(400).json({
+        success: false,
+        message: 'Not enough points to redeem this reward',
+      })
+    }
+
+    if (reward.perUserLimit) {
+      const userRedemptions = await Redemption.countDocuments({
+        userId: user._id,
+        rewardId: reward._id,
+        status: { $ne: 'cancelled' },
+      })
+      if (userRedemptions >= reward.perUserLimit) {
+        return res.status(400).json({
+          success: false,
+          message: 'You have reached the redemption limit for this reward',
+        })
+      }
+    }
+
+    // Reserve a unit of stock before taking any points
+    if (reward.stock !== null && reward.stock !== undefined) {
+      const reserved = await Reward.findOneAndUpdate(
+        { _id: reward._id, stock: { $gt: 0 } },
+        { $inc: { stock: -1 } }
+      )
+      if (!reserved) {
+        return res.status(400).json({
+          success: false,
+          message: 'This reward is out of stock',
+        })
+      }
+    }
+
+    const redemption = await Redemption.create({
+      userId: user._id,
+      rewardId: reward._id,
+      rewardName: reward.name,
+      cost: reward.cost,
+      status: 'pending',
+    })
+    const redemptionId = (redemption._id as mongoose.Types.ObjectId).toString()
+
+    // Parallel requests can all pass the check above; count again now that
+    // this redemption exists and back it out if the limit was exceeded
+    if (reward.perUserLimit) {
+      const userRedemptions = await Redemption.countDocuments({
+        userId: user._id,
+        rewardId: reward._id,
+        status: { $ne: 'cancelled' },
+      })
+      if (userRedemptions > reward.perUserLimit) {
+        await Redemption.deleteOne({ _id: redemption._id })
+        if (reward.stock !== null && reward.stock !== undefined) {
+          await Reward.updateOne({ _id: reward._id }, { $inc: { stock: 1 } })
+        }
+
+        return res.status(400).json({
+          success: false,
+          message: 'You have reached the redemption limit for this reward',
+        })
+      }
+    }
+
+    const debitResult = await deductPoints(
+      (user._id as mongoose.Types.ObjectId).toString(),
+      reward.cost,
+      `Reward redeemed: ${reward.name}`,
+      { rewardId, redemptionId, spending: true },
+      `redemption:${redemptionId}`
+    )
+
+    if (!debitResult.success) {
+      // Nothing was spent - undo the reservation
+      await Redemption.deleteOne({ _id: redemption._id })
+      if (reward.stock !== null && reward.stock !== undefined) {
+        await Reward.updateOne({ _id: reward._id }, { $inc: { stock: 1 } })
+      }
+
+      return res.status(400).json({
+        success: false,
+        message: debitResult.error || 'Failed to redeem reward',
+      })
+    }
+
+    redemption.debitTransactionId = debitResult.transactionId as any
+    await redemption.save()
+
+    res.status(201).json({
+      success: true,
+      message: 'Reward redeemed successfully',
+      data: {
+        redemption,
+        points: debitResult.newBalance,
+      },
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+router.get('/redemptions', authenticate, checkBanStatus, async (req: AuthRequest, res, next) => {
+  try {
+    const userEmail = req.user?.email
+    if (!userEmail) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      })
+    }
+
+    const user = await User.findOne({ email: userEmail.toLowerCase() })
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found',
+      })
+    }
+
+    const redemptions = await Redemption.find({ userId: user._id })
+      .sort({ createdAt: -1 })
+      .lean()
+
+    res.json({
+      success: true,
+      data: {
+        redemptions,
+      },
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Seasons with the caller's score (live) or final standing (closed)
+router.get('/seasons', authenticate, checkBanStatus, async (req: AuthRequest, res, next) => {
+  try {
+    const user = await User.findOne({ email: req.user?.email })
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found',
+      })
+    }
+    const userId = (user._id as mongoose.Types.ObjectId).toString()
+
+    const seasons = await Season.find({ startsAt: { $lte: new Date() } }).sort({ startsAt: -1 })
+    const standings = await SeasonStanding.find({
+      userId: user._id,
+      seasonId: { $in: seasons.map(season => season._id) },
+    }).lean()
+    const standingMap = new Map(standings.map(standing => [standing.seasonId.toString(), standing]))
+
+    const seasonsWithStanding = await Promise.all(seasons.map(async season => {
+      const standing = standingMap.get((season._id as mongoose.Types.ObjectId).toString())
+      return {
+        id: season._id,
+        name: season.name,
+        description: season.description,
+        startsAt: season.startsAt,
+        endsAt: season.endsAt,
+        status: season.status,
+        participants: season.participants,
+        rank: standing?.rank || null,
+        score: season.status === 'closed'
+          ? standing?.score || 0
+          : await seasonService.getUserSeasonScore(season, userId),
+      }
+    }))
+
+    res.json({
+      success: true,
+      data: {
+        seasons: seasonsWithStanding,
+      },
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Archived final standings of a closed season
+router.get('/seasons/:seasonId/standings', authenticate, checkBanStatus, async (req: AuthRequest, res, next) => {
+  try {
+    const { seasonId } = req.params
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 100)
+
+    const season = await Season.findById(seasonId).lean()
+    if (!season) {
+      return res.status(404).json({
+        success: false,
+        message: 'Season not found',
+      })
+    }
+
+    if (season.status !== 'closed') {
+      return res.status(400).json({
+        success: false,
+        message: 'Standings are archived once the season is closed',
+      })
+    }
+
+    const user = await User.findOne({ email: req.user?.email }).select('_id')
+
+    const standings = await SeasonStanding.find({ seasonId: season._id })
+      .sort({ rank: 1, _id: 1 })
+      .limit(limit)
+      .select('rank score displayName -_id')
+      .lean()
+
+    const own = user
+      ? await SeasonStanding.findOne({ seasonId: season._id, userId: user._id })
+          .select('rank score displayName -_id')
+          .lean()
+      : null
+
+    res.json({
+      success: true,
+      data: {
+        season: {
+          id: season._id,
+          name: season.name,
+          startsAt: season.startsAt,
+          endsAt: season.endsAt,
+          closedAt: season.closedAt,
+          participants: season.participants,
+        },
+        standings,
+        myStanding: own,
+      },
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Daily check-in streak state and recent history
+router.get('/check-in', authenticate, checkBanStatus, async (req: AuthRequest, res, next) => {
+  try {
+    const user = await User.findOne({ email: req.user?.email })
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found',
+      })
+    }
+
+    const history = await checkInService.getRecentCheckIns(user._id as mongoose.Types.ObjectId)
+
+    res.json({
+      success: true,
+      data: {
+        streak: checkInService.getStreakState(user),
+        history,
+      },
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+router.post('/check-in', authenticate, checkBanStatus, async (req: AuthRequest, res, next) => {
+  try {
+    const user = await User.findOne({ email: req.user?.email }).select('_id')
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found',
+      })
+    }
+
+    const result = await checkInService.checkIn((user._id as mongoose.Types.ObjectId).toString())
+
+    res.json({
+      success: true,
+      message: `Checked in! Your streak is ${result.streak.current} day(s).`,
+      data: {
+        date: result.checkIn.date,
+        pointsAwarded: result.checkIn.pointsAwarded,
+        freezesUsed: result.checkIn.freezesUsed,
+        streak: result.streak,
+        points: result.points,
+      },
+    })
+  } catch (error: any) {
+    if (error instanceof CheckInError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      })
+    }
+    if (error?.code === 11000) {
+      return res.status(400).json({
+        success: false,
+        message: 'You have already checked in today',
+      })
+    }
+    next(error)
+  }
+})
+
+router.post('/check-in/freeze', authenticate, checkBanStatus, async (req: AuthRequest, res, next) => {
+  try {
+    const user = await User.findOne({ email: req.user?.email }).select('_id')
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found',
+      })
+    }
+
+    const result = await checkInService.buyStreakFreeze((user._id as mongoose.Types.ObjectId).toString())
+
+    res.json({
+      success: true,
+      message: 'Streak freeze purchased',
+      data: result,
+    })
+  } catch (error) {
+    if (error instanceof CheckInError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      })
+    }
+    next(error)
+  }
+})
+
 export default router
 
 
@@ -0,0 +1,68 @@
+import mongoose from 'mongoose'
+import { connectMongoDB } from '../config/mongodb.js'
+import { User } from '../models/User.js'
+import { PointsTransaction } from '../models/PointsTransaction.js'
+import { getLedgerBalance } from '../utils/pointsManager.js'
+import { tierService } from '../services/tierService.js'
+import { logInfo, logError } from '../utils/logger.js'
+import dotenv from 'dotenv'
+
+dotenv.config()
+
+// Balances earned before the ledger existed get a single opening entry so
+// that User.points matches the sum of ledger entries for every user.
+const backfillPointsLedger = async () => {
+  try {
+    const users = await User.find({ points: { $gt: 0 } }).select('email points')
+    let backfilled = 0
+
+    for (const user of users) {
+      const userId = (user._id as mongoose.Types.ObjectId).toString()
+      const ledgerBalance = await getLedgerBalance(userId)
+      const difference = (user.points || 0) - ledgerBalance
+
+      if (difference === 0) {
+        continue
+      }
+
+      await PointsTransaction.create({
+        userId: user._id,
+        type: difference > 0 ? 'credit' : 'debit',
+        amount: difference,
+        balanceAfter: user.points,
+        reason: 'Opening balance',
+        metadata: { backfill: true },
+      })
+
+      backfilled++
+      console.log(`✅ ${user.email}: recorded opening balance of ${difference}`)
+    }
+
+    // Lifetime points (used for tiers) are every earned credit in the ledger
+    const lifetimeTotals = await PointsTransaction.aggregate([
+      { $match: { type: 'credit', 'metadata.refund': { $ne: true } } },
+      { $group: { _id: '$userId', total: { $sum: '$amount' } } },
+    ])
+    for (const row of lifetimeTotals) {
+      await User.updateOne({ _id: row._id }, { lifetimePoints: row.total })
+      await tierService.recomputeTier(row._id.toString())
+    }
+    console.log(`✅ Lifetime points recomputed for ${lifetimeTotals.length} users`)
+
+    logInfo('Points ledger backfill complete', { checked: users.length, backfilled })
+    console.log(`✅ Backfill complete: ${backfilled} of ${users.length} users updated`)
+    process.exit(0)
+  } catch (error) {
+    logError('Error backfilling points ledger', error)
+    console.error('❌ Error backfilling points ledger:', error)
+    process.exit(1)
+  }
+}
+
+connectMongoDB()
+  .then(() => backfillPointsLedger())
+  .catch((error) => {
+    logError('Failed to connect to database for points backfill', error)
+    console.error('Failed to connect to database:', error)
+    process.exit(1)
+  })
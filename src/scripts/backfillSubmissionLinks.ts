@@ -0,0 +1,44 @@
+import { connectMongoDB } from '../config/mongodb.js'
+import { UserTask } from '../models/UserTask.js'
+import { TaskSubmission } from '../models/TaskSubmission.js'
+import { normalizeSubmissionLink } from '../utils/linkNormalizer.js'
+import { logInfo, logError } from '../utils/logger.js'
+import dotenv from 'dotenv'
+
+dotenv.config()
+
+// Links submitted before normalization existed are invisible to duplicate
+// detection until they get a normalized form.
+const backfillSubmissionLinks = async () => {
+  try {
+    const filter = { submissionLink: { $ne: null }, normalizedLink: null }
+    let records = 0
+    let attempts = 0
+
+    for await (const userTask of UserTask.find(filter).select('submissionLink').cursor()) {
+      await UserTask.updateOne({ _id: userTask._id }, { normalizedLink: normalizeSubmissionLink(userTask.submissionLink!) })
+      records++
+    }
+
+    for await (const submission of TaskSubmission.find(filter).select('submissionLink').cursor()) {
+      await TaskSubmission.updateOne({ _id: submission._id }, { normalizedLink: normalizeSubmissionLink(submission.submissionLink!) })
+      attempts++
+    }
+
+    logInfo('Submission link backfill complete', { records, attempts })
+    console.log(`✅ Normalized links for ${records} task records and ${attempts} submission attempts`)
+    process.exit(0)
+  } catch (error) {
+    logError('Error backfilling submission links', error)
+    console.error('❌ Error backfilling submission links:', error)
+    process.exit(1)
+  }
+}
+
+connectMongoDB()
+  .then(() => backfillSubmissionLinks())
+  .catch((error) => {
+    logError('Failed to connect to database for submission link backfill', error)
+    console.error('Failed to connect to database:', error)
+    process.exit(1)
+  })
@@ -0,0 +1,46 @@
+import { connectMongoDB } from '../config/mongodb.js'
+import { UserTask } from '../models/UserTask.js'
+import { ONE_TIME_PERIOD } from '../services/taskService.js'
+import { logInfo, logError } from '../utils/logger.js'
+import dotenv from 'dotenv'
+
+dotenv.config()
+
+const LEGACY_INDEX = 'userId_1_taskId_1'
+
+// Records created before recurring tasks existed belong to the one-time
+// period, and the old one-record-per-task index has to go before a user can
+// complete a recurring task more than once.
+const migrateUserTaskPeriods = async () => {
+  try {
+    const result = await UserTask.updateMany(
+      { periodKey: { $exists: false } },
+      { $set: { periodKey: ONE_TIME_PERIOD } }
+    )
+    console.log(`✅ Assigned the one-time period to ${result.modifiedCount} task records`)
+
+    const indexes = await UserTask.collection.indexes()
+    if (indexes.some(index => index.name === LEGACY_INDEX)) {
+      await UserTask.collection.dropIndex(LEGACY_INDEX)
+      console.log(`✅ Dropped legacy index ${LEGACY_INDEX}`)
+    }
+
+    await UserTask.syncIndexes()
+
+    logInfo('User task period migration complete', { updated: result.modifiedCount })
+    console.log('✅ Migration complete')
+    process.exit(0)
+  } catch (error) {
+    logError('Error migrating user task periods', error)
+    console.error('❌ Error migrating user task periods:', error)
+    process.exit(1)
+  }
+}
+
+connectMongoDB()
+  .then(() => migrateUserTaskPeriods())
+  .catch((error) => {
+    logError('Failed to connect to database for user task migration', error)
+    console.error('Failed to connect to database:', error)
+    process.exit(1)
+  })
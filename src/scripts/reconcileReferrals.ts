@@ -0,0 +1,42 @@
+import mongoose from 'mongoose'
+import { connectMongoDB } from '../config/mongodb.js'
+import { User } from '../models/User.js'
+import { referralService } from '../services/referralService.js'
+import { logInfo, logError } from '../utils/logger.js'
+import dotenv from 'dotenv'
+
+dotenv.config()
+
+// Referrals used to complete only when the referred user's client asked for
+// it; this re-evaluates every referred user so none stay uncredited.
+const reconcileReferrals = async () => {
+  try {
+    const filter = { $or: [{ referredByUserId: { $ne: null } }, { referredBy: { $ne: null } }] }
+    let evaluated = 0
+    let completed = 0
+
+    for await (const user of User.find(filter).select('_id').cursor()) {
+      const referral = await referralService.evaluate((user._id as mongoose.Types.ObjectId).toString())
+      evaluated++
+      if (referral?.allVerificationsComplete) {
+        completed++
+      }
+    }
+
+    logInfo('Referral reconciliation complete', { evaluated, completed })
+    console.log(`✅ Evaluated ${evaluated} referred users, ${completed} referrals complete`)
+    process.exit(0)
+  } catch (error) {
+    logError('Error reconciling referrals', error)
+    console.error('❌ Error reconciling referrals:', error)
+    process.exit(1)
+  }
+}
+
+connectMongoDB()
+  .then(() => reconcileReferrals())
+  .catch((error) => {
+    logError('Failed to connect to database for referral reconciliation', error)
+    console.error('Failed to connect to database:', error)
+    process.exit(1)
+  })
@@ -0,0 +1,185 @@
+import mongoose from 'mongoose'
+import { Badge, IBadge, IBadgeCriterion } from '../models/Badge.js'
+import { UserBadge } from '../models/UserBadge.js'
+import { Referral } from '../models/Referral.js'
+import { Task } from '../models/Task.js'
+import { UserTask } from '../models/UserTask.js'
+import { OnboardingEvent } from '../models/OnboardingEvent.js'
+import { PointsTransaction } from '../models/PointsTransaction.js'
+import { RANKED_TRANSACTIONS_FILTER } from './leaderboardService.js'
+import { awardPoints } from '../utils/pointsManager.js'
+import { logInfo, logError } from '../utils/logger.js'
+
+// Triggers that are not OnboardingEvent types
+export type AchievementTrigger = 'task_completed' | 'referral_completed' | string
+
+/**
+ * Whether a criterion can have changed because of the given trigger. Points
+ * are awarded alongside most triggers, so points_earned is always re-checked.
+ */
+const isRelevant = (criterion: IBadgeCriterion, trigger: AchievementTrigger): boolean => {
+  switch (criterion.metric) {
+    case 'tasks_completed':
+      return trigger === 'task_completed'
+    case 'referrals_completed':
+      return trigger === 'referral_completed'
+    case 'event_count':
+      return trigger === criterion.eventType
+    case 'points_earned':
+      return true
+    default:
+      return false
+  }
+}
+
+class AchievementService {
+  private async measure(userId: mongoose.Types.ObjectId, criterion: IBadgeCriterion): Promise<number> {
+    switch (criterion.metric) {
+      case 'referrals_completed':
+        return Referral.countDocuments({ referrerId: userId, status: 'completed', reviewStatus: { $ne: 'voided' } })
+
+      case 'tasks_completed': {
+        const filter: any = { userId, status: { $in: ['approved', 'completed'] } }
+        if (criterion.taskType) {
+          const tasks = await Task.find({ taskType: criterion.taskType }).select('_id').lean()
+          filter.taskId = { $in: tasks.map(task => task._id) }
+        }
+        return UserTask.countDocuments(filter)
+      }
+
+      case 'points_earned': {
+        const [result] = await PointsTransaction.aggregate([
+          // Clawbacks take back credits that should not have been earned;
+          // admin adjustments are not earned, as with lifetime points
+          {
+            $match: {
+              ...RANKED_TRANSACTIONS_FILTER,
+              userId,
+              'metadata.adjustment': { $ne: true },
+              $or: [{ type: 'credit' }, { 'metadata.clawback': true }],
+            },
+          },
+          { $group: { _id: null, total: { $sum: '$amount' } } },
+        ])
+        return result?.total || 0
+      }
+
+      case 'event_count':
+        return OnboardingEvent.countDocuments({ userId, eventType: criterion.eventType })
+
+      default:
+        return 0
+    }
+  }
+
+  private async meetsCriteria(userId: mongoose.Types.ObjectId, badge: IBadge, cache: Map<string, number>): Promise<boolean> {
+    for (const criterion of badge.criteria) {
+      const cacheKey = `${criterion.metric}:${criterion.taskType || ''}:${criterion.eventType || ''}`
+      let value = cache.get(cacheKey)
+      if (value === undefined) {
+        value = await this.measure(userId, criterion)
+        cache.set(cacheKey, value)
+      }
+      if (value < criterion.threshold) {
+        return false
+      }
+    }
+    return true
+  }
+
+  private async grant(userId: mongoose.Types.ObjectId, badge: IBadge, trigger: AchievementTrigger): Promise<boolean> {
+    let userBadge
+    try {
+      userBadge = await UserBadge.create({ userId, badgeId: badge._id, trigger })
+    } catch (error: any) {
+      if (error?.code === 11000) {
+        return false // Granted concurrently
+      }
+      throw error
+    }
+
+    if (badge.bonusPoints > 0) {
+      const result = await awardPoints(
+        userId.toString(),
+        badge.bonusPoints,
+        `Badge earned: ${badge.name}`,
+        { badgeId: (badge._id as mongoose.Types.ObjectId).toString(), badgeKey: badge.key },
+        `badge:${(userBadge._id as mongoose.Types.ObjectId).toString()}`
+      )
+      if (result.success) {
+        userBadge.bonusPointsAwarded = badge.bonusPoints
+        await userBadge.save()
+      }
+    }
+
+    await OnboardingEvent.create({
+      userId,
+      eventType: 'badge_earned',
+      eventData: { badgeKey: badge.key, badgeName: badge.name, bonusPoints: badge.bonusPoints, trigger },
+    })
+
+    logInfo('Badge earned', { userId: userId.toString(), badge: badge.key, trigger })
+    return true
+  }
+
+  /**
+   * Grants every active badge whose criteria the user now meets. With a
+   * trigger, only badges that the trigger could affect are evaluated.
+   * Returns the keys of newly granted badges.
+   */
+  async evaluate(userId: string, trigger?: AchievementTrigger): Promise<string[]> {
+    const userObjectId = new mongoose.Types.ObjectId(userId)
+    const earned = await UserBadge.find({ userId: userObjectId }).select('badgeId').lean()
+
+    const candidates = await Badge.find({
+      isActive: true,
+      _id: { $nin: earned.map(userBadge => userBadge.badgeId) },
+    })
+
+    const relevant = trigger
+      ? candidates.filter(badge => badge.criteria.some(criterion => isRelevant(criterion, trigger)))
+      : candidates
+
+    const granted: string[] = []
+    const cache = new Map<string, number>()
+    for (const badge of relevant) {
+      if (await this.meetsCriteria(userObjectId, badge, cache) && await this.grant(userObjectId, badge, trigger || 'manual')) {
+        granted.push(badge.key)
+      }
+    }
+
+    return granted
+  }
+
+  /**
+   * Fire-and-forget variant for request handlers: achievements must never
+   * fail the action that triggered them.
+   */
+  handleEvent(userId: string, trigger: AchievementTrigger): void {
+    this.evaluate(userId, trigger).catch(error => {
+      logError('Error evaluating achievements', { userId, trigger, error: error?.message })
+    })
+  }
+
+  async getUserBadges(userId: mongoose.Types.ObjectId | string) {
+    const userBadges = await UserBadge.find({ userId })
+      .populate('badgeId', 'key name description iconUrl')
+      .sort({ createdAt: -1 })
+      .lean()
+
+    return userBadges
+      .filter(userBadge => userBadge.badgeId)
+      .map(userBadge => {
+        const badge = userBadge.badgeId as any
+        return {
+          key: badge.key,
+          name: badge.name,
+          description: badge.description,
+          iconUrl: badge.iconUrl,
+          earnedAt: userBadge.createdAt,
+        }
+      })
+  }
+}
+
+export const achievementService = new AchievementService()
@@ -0,0 +1,130 @@
+import mongoose from 'mongoose'
+import { ReferralCampaign, IReferralCampaign } from '../models/ReferralCampaign.js'
+import { User, IUser } from '../models/User.js'
+import { Referral } from '../models/Referral.js'
+import { PointsTransaction } from '../models/PointsTransaction.js'
+import { ReferralClick } from '../models/ReferralClick.js'
+
+// What a signup code points at: a user's own tag or a campaign
+export interface ResolvedReferralCode {
+  referrer: IUser | null
+  campaign: IReferralCampaign | null
+}
+
+class CampaignService {
+  /**
+   * Reason the campaign cannot take another signup, or null.
+   */
+  getUnavailableReason(campaign: Pick<IReferralCampaign, 'isActive' | 'expiresAt' | 'maxUses' | 'useCount'>, now: Date = new Date()): string | null {
+    if (!campaign.isActive) {
+      return 'Campaign is not active'
+    }
+    if (campaign.expiresAt && campaign.expiresAt <= now) {
+      return 'Campaign has expired'
+    }
+    if (campaign.maxUses && campaign.useCount >= campaign.maxUses) {
+      return 'Campaign has reached its usage limit'
+    }
+    return null
+  }
+
+  /**
+   * Codes and renopays tags share one namespace so a signup code is never
+   * ambiguous.
+   */
+  async isCodeTaken(code: string, excludeCampaignId?: string): Promise<boolean> {
+    const normalized = code.trim().toLowerCase()
+    const [campaign, user] = await Promise.all([
+      ReferralCampaign.exists({ code: normalized, ...(excludeCampaignId ? { _id: { $ne: excludeCampaignId } } : {}) }),
+      User.exists({ renopaysTag: normalized }),
+    ])
+    return !!campaign || !!user
+  }
+
+  /**
+   * Looks up a code entered at signup. A user's tag wins; otherwise an
+   * available campaign is used. Influencer campaigns bring their owner as
+   * the referrer.
+   */
+  async resolveCode(code: string): Promise<ResolvedReferralCode> {
+    const normalized = code.trim().toLowerCase()
+
+    const referrer = await User.findOne({ renopaysTag: normalized })
+    if (referrer) {
+      return { referrer, campaign: null }
+    }
+
+    const campaign = await ReferralCampaign.findOne({ code: normalized })
+    if (!campaign || this.getUnavailableReason(campaign)) {
+      return { referrer: null, campaign: null }
+    }
+
+    const owner = campaign.ownerType === 'influencer' && campaign.ownerUserId
+      ? await User.findById(campaign.ownerUserId)
+      : null
+    return { referrer: owner, campaign }
+  }
+
+  /**
+   * Counts one signup against the campaign. The cap and expiry are checked in
+   * the same update, so concurrent signups cannot overshoot the limit.
+   */
+  async redeem(campaignId: mongoose.Types.ObjectId): Promise<boolean> {
+    const now = new Date()
+    const redeemed = await ReferralCampaign.findOneAndUpdate(
+      {
+        _id: campaignId,
+        isActive: true,
+        $and: [
+          { $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }] },
+          { $or: [{ maxUses: null }, { $expr: { $lt: ['$useCount', '$maxUses'] } }] },
+        ],
+      },
+      { $inc: { useCount: 1 } }
+    )
+    return !!redeemed
+  }
+
+  async release(campaignId: mongoose.Types.ObjectId): Promise<void> {
+    await ReferralCampaign.updateOne({ _id: campaignId, useCount: { $gt: 0 } }, { $inc: { useCount: -1 } })
+  }
+
+  /**
+   * Funnel for one campaign: link clicks, signups, verified emails, completed referrals
+   * and the net points paid because of it (clawbacks included).
+   */
+  async getFunnel(campaignId: mongoose.Types.ObjectId) {
+    const [clicks, signups, verified, allStepsComplete, completedReferrals, flaggedReferrals, points] = await Promise.all([
+      ReferralClick.countDocuments({ campaignId }),
+      User.countDocuments({ campaignId }),
+      User.countDocuments({ campaignId, emailVerified: true }),
+      User.countDocuments({ campaignId, renopaysTag: { $ne: null }, telegramVerified: true, telegramFollowed: true, emailVerified: true }),
+      Referral.countDocuments({ campaignId, status: 'completed', reviewStatus: { $ne: 'voided' } }),
+      Referral.countDocuments({ campaignId, reviewStatus: 'pending_review' }),
+      PointsTransaction.aggregate([
+        { $match: { 'metadata.campaignId': campaignId.toString() } },
+        { $group: { _id: '$type', total: { $sum: '$amount' } } },
+      ]),
+    ])
+
+    const paid = points.find(entry => entry._id === 'credit')?.total || 0
+    const clawedBack = -(points.find(entry => entry._id === 'debit')?.total || 0)
+
+    return {
+      clicks,
+      signups,
+      verified,
+      allStepsComplete,
+      completedReferrals,
+      flaggedReferrals,
+      pointsPaid: paid - clawedBack,
+      pointsClawedBack: clawedBack,
+      conversion: {
+        verified: signups ? verified / signups : 0,
+        allStepsComplete: signups ? allStepsComplete / signups : 0,
+      },
+    }
+  }
+}
+
+export const campaignService = new CampaignService()
@@ -0,0 +1,195 @@
+import mongoose from 'mongoose'
+import { User, IUser } from '../models/User.js'
+import { CheckIn } from '../models/CheckIn.js'
+import { OnboardingEvent } from '../models/OnboardingEvent.js'
+import { achievementService } from './achievementService.js'
+import { awardPoints, deductPoints } from '../utils/pointsManager.js'
+import { getRewardRule, getScheduledPoints, ruleMetadata } from '../utils/rewardRules.js'
+import { logInfo } from '../utils/logger.js'
+
+export class CheckInError extends Error {}
+
+export const MAX_STREAK_FREEZES = 2
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const getCheckInTimezone = (): string => process.env.CHECK_IN_TIMEZONE || 'UTC'
+
+/**
+ * Calendar date (YYYY-MM-DD) of the given instant in the check-in timezone.
+ */
+export const getCheckInDate = (now: Date = new Date(), timeZone: string = getCheckInTimezone()): string => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(now)
+
+  const part = (type: string) => parts.find(p => p.type === type)?.value
+  return `${part('year')}-${part('month')}-${part('day')}`
+}
+
+const daysBetween = (from: string, to: string): number => {
+  return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS)
+}
+
+class CheckInService {
+  /**
+   * Records today's check-in. A missed day resets the streak unless the user
+   * holds enough streak freezes to cover every missed day.
+   */
+  async checkIn(userId: string) {
+    const user = await User.findById(userId).select('currentStreak longestStreak lastCheckInDate streakFreezes')
+    if (!user) {
+      throw new CheckInError('User not found')
+    }
+
+    const today = getCheckInDate()
+    const gap = user.lastCheckInDate ? daysBetween(user.lastCheckInDate, today) : null
+
+    if (gap !== null && gap <= 0) {
+      throw new CheckInError('You have already checked in today')
+    }
+
+    const missedDays = gap === null ? 0 : gap - 1
+    let streak = 1
+    let freezesUsed = 0
+
+    if (gap !== null && missedDays <= (user.streakFreezes || 0)) {
+      streak = (user.currentStreak || 0) + 1
+      freezesUsed = missedDays
+    }
+
+    // Claim the day against the state we read, so a double submit cannot
+    // extend the streak twice
+    const updated = await User.findOneAndUpdate(
+      {
+        _id: userId,
+        lastCheckInDate: user.lastCheckInDate || null,
+        streakFreezes: { $gte: freezesUsed },
+      },
+      {
+        $set: { currentStreak: streak, lastCheckInDate: today },
+        $max: { longestStreak: streak },
+        $inc: { streakFreezes: -freezesUsed },
+      },
+      { new: true }
+    )
+
+    if (!updated) {
+      throw new CheckInError('You have already checked in today')
+    }
+
+    const checkIn = await CheckIn.create({
+      userId: updated._id,
+      date: today,
+      streak,
+      freezesUsed,
+    })
+
+    const rule = await getRewardRule('daily_check_in')
+    const points = getScheduledPoints(rule, streak)
+    let newBalance: number | null = null
+
+    if (points > 0) {
+      const result = await awardPoints(
+        userId,
+        points,
+        `Daily check-in (day ${streak})`,
+        { date: today, streak, ...ruleMetadata(rule) },
+        `check_in:${userId}:${today}`
+      )
+      if (result.success) {
+        checkIn.pointsAwarded = points
+        await checkIn.save()
+        newBalance = result.newBalance
+      }
+    }
+
+    await OnboardingEvent.create({
+      userId: updated._id,
+      eventType: 'daily_check_in',
+      eventData: { date: today, streak, freezesUsed, pointsAwarded: checkIn.pointsAwarded },
+    })
+    achievementService.handleEvent(userId, 'daily_check_in')
+
+    logInfo('Daily check-in recorded', { userId, date: today, streak, freezesUsed, points: checkIn.pointsAwarded })
+
+    return {
+      checkIn,
+      streak: this.getStreakState(updated),
+      points: newBalance,
+    }
+  }
+
+  /**
+   * Buys a streak freeze with points. The freeze is reserved first and handed
+   * back if the debit fails, so the cap can never be exceeded.
+   */
+  async buyStreakFreeze(userId: string) {
+    const exists = await User.exists({ _id: userId })
+    if (!exists) {
+      throw new CheckInError('User not found')
+    }
+
+    const reserved = await User.findOneAndUpdate(
+      { _id: userId, streakFreezes: { $lt: MAX_STREAK_FREEZES } },
+      { $inc: { streakFreezes: 1 } },
+      { new: true }
+    )
+    if (!reserved) {
+      throw new CheckInError(`You can hold at most ${MAX_STREAK_FREEZES} streak freezes`)
+    }
+
+    const rule = await getRewardRule('streak_freeze_cost')
+    let newBalance = reserved.points || 0
+
+    if (rule.points > 0) {
+      const result = await deductPoints(userId, rule.points, 'Streak freeze purchased', { spending: true, ...ruleMetadata(rule) })
+      if (!result.success) {
+        await User.updateOne({ _id: userId }, { $inc: { streakFreezes: -1 } })
+        throw new CheckInError(result.error || 'Failed to buy streak freeze')
+      }
+      newBalance = result.newBalance
+    }
+
+    logInfo('Streak freeze purchased', { userId, cost: rule.points })
+
+    return {
+      streakFreezes: reserved.streakFreezes,
+      cost: rule.points,
+      points: newBalance,
+    }
+  }
+
+  /**
+   * Streak as the user should see it right now: a streak that can no longer
+   * be saved by freezes shows as 0 until the next check-in resets it.
+   */
+  getStreakState(user: IUser) {
+    const today = getCheckInDate()
+    const gap = user.lastCheckInDate ? daysBetween(user.lastCheckInDate, today) : null
+    const broken = gap !== null && gap - 1 > (user.streakFreezes || 0)
+
+    return {
+      current: broken ? 0 : user.currentStreak || 0,
+      longest: user.longestStreak || 0,
+      lastCheckInDate: user.lastCheckInDate || null,
+      checkedInToday: gap === 0,
+      freezes: user.streakFreezes || 0,
+      maxFreezes: MAX_STREAK_FREEZES,
+      timezone: getCheckInTimezone(),
+    }
+  }
+
+  async getRecentCheckIns(userId: mongoose.Types.ObjectId | string, limit: number = 30) {
+    return CheckIn.find({ userId })
+      .sort({ date: -1 })
+      .limit(limit)
+      .select('date streak freezesUsed pointsAwarded -_id')
+      .lean()
+  }
+}
+
+export const checkInService = new CheckInService()
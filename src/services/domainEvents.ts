@@ -0,0 +1,42 @@
+import { logError } from '../utils/logger.js'
+
+// Changes to a user's verification state
+export type DomainEventName = 'telegram_verified' | 'renopays_tag_created' | 'email_verified' | 'telegram_followed'
+
+export interface DomainEvent {
+  userId: string
+  occurredAt: Date
+  data?: Record<string, any>
+}
+
+export type DomainEventHandler = (event: DomainEvent) => Promise<void> | void
+
+/**
+ * In-process publish/subscribe for domain events. Handlers run after the
+ * publishing request has done its own work; a failing handler is logged and
+ * does not affect the publisher or the other handlers.
+ */
+class DomainEventBus {
+  private handlers = new Map<DomainEventName, DomainEventHandler[]>()
+
+  subscribe(name: DomainEventName, handler: DomainEventHandler): void {
+    this.handlers.set(name, [...(this.handlers.get(name) || []), handler])
+  }
+
+  /**
+   * Runs every handler for the event. The returned promise settles once they
+   * all have and never rejects, so callers may leave it unawaited.
+   */
+  async publish(name: DomainEventName, userId: string, data?: Record<string, any>): Promise<void> {
+    const event: DomainEvent = { userId, occurredAt: new Date(), data }
+    await Promise.all((this.handlers.get(name) || []).map(async handler => {
+      try {
+        await handler(event)
+      } catch (error: any) {
+        logError('Domain event handler failed', { event: name, userId, error: error?.message })
+      }
+    }))
+  }
+}
+
+export const domainEvents = new DomainEventBus()
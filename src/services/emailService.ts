@@ -1104,6 +1104,87 @@ class EmailService {
       html,
     })
   }
+
+  async sendTierPromotionEmail(email: string, name: string, tierName: string, perks: string[] = []): Promise<boolean> {
+    const perksHtml = perks.length > 0
+      ? `<p>Your new perks:</p><ul>${perks.map(perk => `<li>${perk}</li>`).join('')}</ul>`
+      : ''
+
+    const html = `
+      <!DOCTYPE html>
+      <html lang="en">
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Tier Promotion - Renotags</title>
+          <style>
+            * { margin: 0; padding: 0; box-sizing: border-box; }
+            body { 
+              font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
+              line-height: 1.6; 
+              color: #333; 
+              background-color: #f4f4f4;
+              padding: 20px;
+            }
+            .email-container { 
+              max-width: 600px; 
+              margin: 0 auto; 
+              background-color: #ffffff;
+              border-radius: 12px;
+              overflow: hidden;
+              box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+            }
+            .header { 
+              background: linear-gradient(135deg, #A8FF00 0%, #06B6D4 100%); 
+              color: #0E0E0E; 
+              padding: 40px 30px; 
+              text-align: center; 
+            }
+            .header h1 { 
+              margin: 0; 
+              font-size: 28px; 
+              font-weight: 700;
+            }
+            .content { 
+              background: #ffffff; 
+              padding: 40px 30px; 
+            }
+            .footer {
+              background: #f9f9f9;
+              padding: 24px 30px;
+              text-align: center;
+              color: #666;
+              font-size: 12px;
+              border-top: 1px solid #e0e0e0;
+            }
+          </style>
+        </head>
+        <body>
+          <div class="email-container">
+            <div class="header">
+              <h1>You reached ${tierName}! 🏆</h1>
+            </div>
+            <div class="content">
+              <p>Hi <strong>${name}</strong>,</p>
+              <p>Congratulations! Your lifetime points have earned you the <strong>${tierName}</strong> tier.</p>
+              ${perksHtml}
+              <p>Keep earning points to unlock even more of Renotags!</p>
+              <p>Best regards,<br><strong>The Renotags Team</strong></p>
+            </div>
+            <div class="footer">
+              <p>© ${new Date().getFullYear()} Renotags. All rights reserved.</p>
+            </div>
+          </div>
+        </body>
+      </html>
+    `
+
+    return this.sendEmail({
+      to: email,
+      subject: `🏆 Welcome to the ${tierName} tier on Renotags`,
+      html,
+    })
+  }
 }
 
 export const emailService = new EmailService()
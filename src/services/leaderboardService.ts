@@ -0,0 +1,220 @@
+import mongoose from 'mongoose'
+import { PointsTransaction } from '../models/PointsTransaction.js'
+import { LeaderboardEntry, ILeaderboardEntry } from '../models/LeaderboardEntry.js'
+import { logInfo, logError } from '../utils/logger.js'
+
+export type LeaderboardWindow = ILeaderboardEntry['window']
+
+export interface RankedStanding {
+  userId: mongoose.Types.ObjectId
+  rank: number
+  score: number
+  displayName: string
+}
+
+export const LEADERBOARD_WINDOWS: LeaderboardWindow[] = ['all', 'weekly', 'monthly']
+
+// Ledger entries that count towards rankings: everything except spending
+// (redemptions, streak freezes) and refunds of that spending
+export const RANKED_TRANSACTIONS_FILTER = { 'metadata.spending': { $ne: true }, 'metadata.refund': { $ne: true } }
+
+const DEFAULT_REFRESH_INTERVAL_MS = 5 * 60 * 1000
+const INSERT_BATCH_SIZE = 1000
+
+/**
+ * Hides most of an email address: "jane.doe@gmail.com" -> "ja***@gmail.com"
+ */
+export const maskEmail = (email: string): string => {
+  const [local, domain] = email.split('@')
+  if (!domain) {
+    return '***'
+  }
+  return `${local.slice(0, 2)}***@${domain}`
+}
+
+/**
+ * Start of the current window in UTC. Weekly windows start on Monday.
+ */
+export const getWindowStart = (window: LeaderboardWindow, now: Date = new Date()): Date | null => {
+  if (window === 'weekly') {
+    const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+    const daysSinceMonday = (start.getUTCDay() + 6) % 7
+    start.setUTCDate(start.getUTCDate() - daysSinceMonday)
+    return start
+  }
+
+  if (window === 'monthly') {
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))
+  }
+
+  return null
+}
+
+class LeaderboardService {
+  private timer: NodeJS.Timeout | null = null
+  private refreshing: boolean = false
+
+  /**
+   * Ranks users by points earned from the ledger between two dates (either
+   * bound may be open). Spending and refunds are excluded so spending points
+   * does not cost a user their rank, while admin clawbacks still do.
+   */
+  async computeStandings(from: Date | null, to: Date | null): Promise<RankedStanding[]> {
+    const match: any = { ...RANKED_TRANSACTIONS_FILTER }
+    if (from || to) {
+      match.createdAt = {
+        ...(from && { $gte: from }),
+        ...(to && { $lt: to }),
+      }
+    }
+
+    const scores = await PointsTransaction.aggregate([
+      { $match: match },
+      { $group: { _id: '$userId', score: { $sum: '$amount' } } },
+      { $match: { score: { $gt: 0 } } },
+      {
+        $lookup: {
+          from: 'users',
+          localField: '_id',
+          foreignField: '_id',
+          as: 'user',
+        },
+      },
+      { $unwind: '$user' },
+      { $match: { 'user.banned': { $ne: true } } },
+      { $sort: { score: -1, _id: 1 } },
+      {
+        $project: {
+          _id: 0,
+          userId: '$_id',
+          score: 1,
+          email: '$user.email',
+          renopaysTag: '$user.renopaysTag',
+        },
+      },
+    ])
+
+    // Competition ranking: equal scores share a rank (1, 2, 2, 4)
+    let previousScore: number | null = null
+    let previousRank = 0
+    return scores.map((row, index) => {
+      const rank = row.score === previousScore ? previousRank : index + 1
+      previousScore = row.score
+      previousRank = rank
+      return {
+        userId: row.userId,
+        rank,
+        score: row.score,
+        displayName: row.renopaysTag || maskEmail(row.email),
+      }
+    })
+  }
+
+  async refreshWindow(window: LeaderboardWindow): Promise<number> {
+    const computedAt = new Date()
+    const standings = await this.computeStandings(getWindowStart(window), null)
+    const entries = standings.map(standing => ({ ...standing, window, computedAt }))
+
+    for (let i = 0; i < entries.length; i += INSERT_BATCH_SIZE) {
+      await LeaderboardEntry.insertMany(entries.slice(i, i + INSERT_BATCH_SIZE), { ordered: false })
+    }
+
+    // Drop older snapshots only once the new one is complete
+    await LeaderboardEntry.deleteMany({ window, computedAt: { $lt: computedAt } })
+
+    return entries.length
+  }
+
+  async refreshAll(): Promise<void> {
+    if (this.refreshing) {
+      return
+    }
+
+    this.refreshing = true
+    try {
+      for (const window of LEADERBOARD_WINDOWS) {
+        const count = await this.refreshWindow(window)
+        logInfo('Leaderboard refreshed', { window, entries: count })
+      }
+    } catch (error) {
+      logError('Error refreshing leaderboard', error)
+    } finally {
+      this.refreshing = false
+    }
+  }
+
+  start(intervalMs: number = parseInt(process.env.LEADERBOARD_REFRESH_INTERVAL_MS || '') || DEFAULT_REFRESH_INTERVAL_MS) {
+    if (this.timer) {
+      return
+    }
+
+    this.refreshAll()
+    this.timer = setInterval(() => this.refreshAll(), intervalMs)
+    this.timer.unref()
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  private async latestSnapshot(window: LeaderboardWindow): Promise<Date | null> {
+    const latest = await LeaderboardEntry.findOne({ window }).sort({ computedAt: -1 }).select('computedAt').lean()
+    return latest?.computedAt || null
+  }
+
+  async getTop(window: LeaderboardWindow, limit: number) {
+    const computedAt = await this.latestSnapshot(window)
+    if (!computedAt) {
+      return { computedAt: null, entries: [] }
+    }
+
+    const entries = await LeaderboardEntry.find({ window, computedAt })
+      .sort({ rank: 1, _id: 1 })
+      .limit(limit)
+      .select('rank score displayName -_id')
+      .lean()
+
+    return { computedAt, entries }
+  }
+
+  async getUserStanding(window: LeaderboardWindow, userId: string, neighbours: number) {
+    const computedAt = await this.latestSnapshot(window)
+    if (!computedAt) {
+      return { computedAt: null, entry: null, neighbours: [] }
+    }
+
+    const entry = await LeaderboardEntry.findOne({
+      window,
+      computedAt,
+      userId: new mongoose.Types.ObjectId(userId),
+    }).lean()
+
+    if (!entry) {
+      return { computedAt, entry: null, neighbours: [] }
+    }
+
+    const nearby = await LeaderboardEntry.find({
+      window,
+      computedAt,
+      rank: { $gte: Math.max(1, entry.rank - neighbours), $lte: entry.rank + neighbours },
+    })
+      .sort({ rank: 1, _id: 1 })
+      .lean()
+
+    return {
+      computedAt,
+      entry: { rank: entry.rank, score: entry.score, displayName: entry.displayName },
+      neighbours: nearby.map(row => ({
+        rank: row.rank,
+        score: row.score,
+        displayName: row.displayName,
+        isCurrentUser: row.userId.toString() === userId,
+      })),
+    }
+  }
+}
+
+export const leaderboardService = new LeaderboardService()
@@ -0,0 +1,106 @@
+import mongoose from 'mongoose'
+import { Quest, IQuest } from '../models/Quest.js'
+import { UserQuest } from '../models/UserQuest.js'
+import { Task } from '../models/Task.js'
+import { OnboardingEvent } from '../models/OnboardingEvent.js'
+import { taskService } from './taskService.js'
+import { awardPoints } from '../utils/pointsManager.js'
+import { logInfo, logError } from '../utils/logger.js'
+
+class QuestService {
+  private async grant(userId: mongoose.Types.ObjectId, quest: IQuest): Promise<boolean> {
+    let userQuest
+    try {
+      userQuest = await UserQuest.create({ userId, questId: quest._id })
+    } catch (error: any) {
+      if (error?.code === 11000) {
+        return false // Completed concurrently
+      }
+      throw error
+    }
+
+    if (quest.bonusPoints > 0) {
+      const result = await awardPoints(
+        userId.toString(),
+        quest.bonusPoints,
+        `Quest completed: ${quest.title}`,
+        { questId: (quest._id as mongoose.Types.ObjectId).toString() },
+        `quest:${(userQuest._id as mongoose.Types.ObjectId).toString()}`
+      )
+      if (result.success) {
+        userQuest.bonusPointsAwarded = quest.bonusPoints
+        await userQuest.save()
+      }
+    }
+
+    await OnboardingEvent.create({
+      userId,
+      eventType: 'quest_completed',
+      eventData: { questId: quest._id, title: quest.title, bonusPoints: quest.bonusPoints },
+    })
+
+    logInfo('Quest completed', { userId: userId.toString(), questId: (quest._id as mongoose.Types.ObjectId).toString() })
+    return true
+  }
+
+  /**
+   * Completes every active quest containing the task whose steps are now all
+   * done. Returns the ids of newly completed quests.
+   */
+  async evaluate(userId: string, taskId: string): Promise<string[]> {
+    const userObjectId = new mongoose.Types.ObjectId(userId)
+    const quests = await Quest.find({ isActive: true, steps: new mongoose.Types.ObjectId(taskId) })
+    if (quests.length === 0) {
+      return []
+    }
+
+    const completed = await taskService.getCompletedTaskIds(userObjectId)
+    const granted: string[] = []
+    for (const quest of quests) {
+      const finished = quest.steps.every(step => completed.has(step.toString()))
+      if (finished && await this.grant(userObjectId, quest)) {
+        granted.push((quest._id as mongoose.Types.ObjectId).toString())
+      }
+    }
+
+    return granted
+  }
+
+  /**
+   * Fire-and-forget hook for task completion and approval.
+   */
+  handleTaskCompleted(userId: string, taskId: string): void {
+    this.evaluate(userId, taskId).catch(error => {
+      logError('Error evaluating quests', { userId, taskId, error: error?.message })
+    })
+  }
+
+  async getUserQuests(userId: mongoose.Types.ObjectId | string) {
+    const quests = await Quest.find({ isActive: true }).sort({ createdAt: -1 }).lean()
+    const stepIds = quests.flatMap(quest => quest.steps)
+    const tasks = await Task.find({ _id: { $in: stepIds } }).select('title').lean()
+    const completed = await taskService.getCompletedTaskIds(userId)
+    const userQuests = await UserQuest.find({ userId }).lean()
+
+    return quests.map(quest => {
+      const userQuest = userQuests.find(uq => uq.questId.toString() === quest._id.toString())
+      const steps = quest.steps.map(step => ({
+        taskId: step,
+        title: tasks.find(task => task._id.toString() === step.toString())?.title,
+        completed: completed.has(step.toString()),
+      }))
+
+      return {
+        _id: quest._id,
+        title: quest.title,
+        description: quest.description,
+        bonusPoints: quest.bonusPoints,
+        steps,
+        completedSteps: steps.filter(step => step.completed).length,
+        completedAt: userQuest?.createdAt || null,
+      }
+    })
+  }
+}
+
+export const questService = new QuestService()
@@ -0,0 +1,147 @@
+import mongoose from 'mongoose'
+import { ITask, IQuiz } from '../models/Task.js'
+import { UserTask, IUserTask } from '../models/UserTask.js'
+import { taskService, COMPLETED_STATUSES } from './taskService.js'
+
+export class QuizError extends Error {}
+
+export interface QuizAttempt {
+  attempt: number
+  answers: number[][]
+  correct: number
+  total: number
+  scorePercent: number
+  passed: boolean
+  submittedAt: Date
+}
+
+const sameSelection = (selected: number[], correct: number[]): boolean => {
+  const chosen = new Set(selected)
+  return chosen.size === correct.length && correct.every(option => chosen.has(option))
+}
+
+class QuizService {
+  /**
+   * The quiz as users may see it: questions and options, never the answers.
+   */
+  toPublicQuiz(quiz?: IQuiz | null) {
+    if (!quiz) {
+      return null
+    }
+
+    return {
+      questions: quiz.questions.map(question => ({
+        prompt: question.prompt,
+        options: question.options,
+        multipleAnswers: question.correctOptions.length > 1,
+      })),
+      passPercent: quiz.passPercent,
+      maxAttempts: quiz.maxAttempts,
+    }
+  }
+
+  getAttempts(userTask?: IUserTask | null): QuizAttempt[] {
+    return userTask?.verificationData?.attempts || []
+  }
+
+  /**
+   * Scores one set of answers, one list of selected option indexes per
+   * question. A question counts as correct only when exactly the correct
+   * options were selected.
+   */
+  score(quiz: IQuiz, answers: number[][]) {
+    if (answers.length !== quiz.questions.length) {
+      throw new QuizError(`Expected answers for ${quiz.questions.length} questions`)
+    }
+
+    const correct = quiz.questions.filter((question, index) => sameSelection(answers[index], question.correctOptions)).length
+    const total = quiz.questions.length
+    const scorePercent = Math.round((correct / total) * 100)
+
+    return { correct, total, scorePercent, passed: scorePercent >= quiz.passPercent }
+  }
+
+  /**
+   * Scores and stores an attempt in the user's record for the current period.
+   * A pass completes the record and takes a completion slot; using the last
+   * attempt without passing rejects it.
+   */
+  async submitAttempt(task: ITask, userId: mongoose.Types.ObjectId, answers: number[][]) {
+    const quiz = task.quiz
+    if (!quiz || quiz.questions.length === 0) {
+      throw new QuizError('This task has no quiz')
+    }
+
+    const periodKey = taskService.getPeriodKey(task)
+    let userTask = await UserTask.findOne({ userId, taskId: task._id, periodKey })
+
+    const attempts = this.getAttempts(userTask)
+    if (attempts.length >= quiz.maxAttempts) {
+      throw new QuizError('No quiz attempts left')
+    }
+
+    const result = this.score(quiz, answers)
+    const attemptsLeft = quiz.maxAttempts - attempts.length - 1
+    const attempt: QuizAttempt = {
+      attempt: attempts.length + 1,
+      answers,
+      ...result,
+      submittedAt: new Date(),
+    }
+
+    if (!userTask) {
+      try {
+        userTask = await UserTask.create({
+          userId,
+          taskId: task._id,
+          periodKey,
+          status: 'pending',
+          verificationData: { method: 'quiz', attempts: [] },
+        })
+      } catch (error: any) {
+        if (error?.code !== 11000) {
+          throw error
+        }
+        throw new QuizError('Another quiz attempt is in progress, please try again')
+      }
+    }
+
+    if (result.passed && !(await taskService.reserveCompletionSlot(task._id as mongoose.Types.ObjectId))) {
+      throw new QuizError('This task has reached its completion limit')
+    }
+
+    const update: any = { $push: { 'verificationData.attempts': attempt } }
+    if (result.passed) {
+      update.$set = { status: 'completed', completedAt: attempt.submittedAt, rejectionReason: null }
+    } else if (attemptsLeft === 0) {
+      update.$set = { status: 'rejected', reviewedAt: attempt.submittedAt, rejectionReason: 'Quiz not passed' }
+    }
+
+    // Appending at the position we counted keeps concurrent attempts from
+    // both being accepted
+    const updated = await UserTask.findOneAndUpdate(
+      {
+        _id: userTask._id,
+        status: { $nin: COMPLETED_STATUSES },
+        [`verificationData.attempts.${attempts.length}`]: { $exists: false },
+      },
+      update,
+      { new: true }
+    )
+
+    if (!updated) {
+      if (result.passed) {
+        await taskService.releaseCompletionSlot(task._id as mongoose.Types.ObjectId)
+      }
+      throw new QuizError('Another quiz attempt is in progress, please try again')
+    }
+
+    return {
+      userTask: updated,
+      attempt,
+      attemptsLeft: result.passed ? 0 : attemptsLeft,
+    }
+  }
+}
+
+export const quizService = new QuizService()
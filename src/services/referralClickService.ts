@@ -0,0 +1,228 @@
+import crypto from 'crypto'
+import jwt from 'jsonwebtoken'
+import mongoose from 'mongoose'
+import { ReferralClick, IReferralClick, IReferralUtm } from '../models/ReferralClick.js'
+import { User } from '../models/User.js'
+import { Referral } from '../models/Referral.js'
+import { campaignService } from './campaignService.js'
+import { getAttributionSecret } from '../utils/jwtSecret.js'
+
+// Cookie set by the /r/:code redirect; the same value is also passed to the
+// frontend as ?attribution= for when the API and frontend are on different sites
+export const ATTRIBUTION_COOKIE = 'rt_attribution'
+export const ATTRIBUTION_DAYS = 30
+
+const UTM_FIELDS: (keyof IReferralUtm)[] = ['source', 'medium', 'campaign', 'term', 'content']
+
+export interface ClickInput {
+  code: string
+  ip?: string
+  userAgent?: string
+  query: Record<string, unknown>
+}
+
+// Completed referrals that still count (voided ones do not)
+const completedFilter = { status: 'completed', reviewStatus: { $ne: 'voided' } }
+
+class ReferralClickService {
+  /**
+   * Shareable link for a code. It goes through /r/:code so the click is
+   * recorded before the visitor reaches the frontend; API_URL is used when
+   * set, otherwise the origin the request came in on.
+   */
+  getTrackedLink(code: string, requestOrigin: string): string {
+    const base = (process.env.API_URL || requestOrigin).replace(/\/$/, '')
+    return `${base}/r/${encodeURIComponent(code)}`
+  }
+
+  /**
+   * Keyed hash of an IP, enough to count unique visitors without storing
+   * the address itself.
+   */
+  hashIp(ip: string): string {
+    return crypto.createHmac('sha256', String(getAttributionSecret())).update(ip).digest('hex')
+  }
+
+  /**
+   * Stores a visit to a referral link. Returns null for codes that are not a
+   * renopays tag or an available campaign.
+   */
+  async recordClick(input: ClickInput): Promise<IReferralClick | null> {
+    const { referrer, campaign } = await campaignService.resolveCode(input.code)
+    if (!referrer && !campaign) {
+      return null
+    }
+
+    const utm: IReferralUtm = {}
+    for (const field of UTM_FIELDS) {
+      const value = input.query[`utm_${field}`]
+      if (typeof value === 'string' && value) {
+        utm[field] = value.slice(0, 200)
+      }
+    }
+
+    return ReferralClick.create({
+      code: input.code.trim().toLowerCase(),
+      referrerId: referrer?._id || null,
+      campaignId: campaign?._id || null,
+      ipHash: input.ip ? this.hashIp(input.ip) : undefined,
+      userAgent: input.userAgent?.slice(0, 500),
+      utm,
+    })
+  }
+
+  createAttributionToken(click: IReferralClick): string {
+    return jwt.sign({ clickId: (click._id as mongoose.Types.ObjectId).toString() }, getAttributionSecret(), {
+      expiresIn: `${ATTRIBUTION_DAYS}d`,
+    })
+  }
+
+  /**
+   * The click behind an attribution token, if the token is valid and the
+   * click has not been used by another signup.
+   */
+  async readAttribution(token?: string | null): Promise<IReferralClick | null> {
+    if (!token) {
+      return null
+    }
+
+    let clickId: string | undefined
+    try {
+      clickId = (jwt.verify(token, getAttributionSecret()) as { clickId?: string }).clickId
+    } catch {
+      return null
+    }
+    if (!clickId || !mongoose.isValidObjectId(clickId)) {
+      return null
+    }
+
+    return ReferralClick.findOne({ _id: clickId, convertedUserId: null })
+  }
+
+  async markConverted(clickId: mongoose.Types.ObjectId, userId: mongoose.Types.ObjectId): Promise<boolean> {
+    const result = await ReferralClick.updateOne(
+      { _id: clickId, convertedUserId: null },
+      { convertedUserId: userId, convertedAt: new Date() }
+    )
+    return result.modifiedCount > 0
+  }
+
+  /**
+   * Clicks → signups → completed referrals for one referrer. Signups count
+   * everyone referred, including those who typed the code without a click.
+   */
+  async getReferrerFunnel(referrerId: mongoose.Types.ObjectId) {
+    const [clicks, uniqueVisitors, convertedClicks, signups, completed] = await Promise.all([
+      ReferralClick.countDocuments({ referrerId }),
+      ReferralClick.distinct('ipHash', { referrerId, ipHash: { $ne: null } }).then(hashes => hashes.length),
+      ReferralClick.countDocuments({ referrerId, convertedUserId: { $ne: null } }),
+      User.countDocuments({ referredByUserId: referrerId }),
+      Referral.countDocuments({ referrerId, ...completedFilter }),
+    ])
+
+    return {
+      clicks,
+      uniqueVisitors,
+      convertedClicks,
+      signups,
+      completed,
+      conversion: {
+        clickToSignup: clicks ? convertedClicks / clicks : 0,
+        signupToCompleted: signups ? completed / signups : 0,
+      },
+    }
+  }
+
+  /**
+   * The same funnel across all referral links, with the referrers and UTM
+   * sources that brought the most clicks.
+   */
+  async getOverview(from?: Date, to?: Date, limit: number = 20) {
+    const createdAt: any = {}
+    if (from) createdAt.$gte = from
+    if (to) createdAt.$lte = to
+    const range = Object.keys(createdAt).length > 0 ? { createdAt } : {}
+
+    const [totals] = await ReferralClick.aggregate([
+      { $match: range },
+      {
+        $group: {
+          _id: null,
+          clicks: { $sum: 1 },
+          visitors: { $addToSet: '$ipHash' },
+          convertedClicks: { $sum: { $cond: [{ $ne: ['$convertedUserId', null] }, 1, 0] } },
+        },
+      },
+      { $project: { _id: 0, clicks: 1, convertedClicks: 1, uniqueVisitors: { $size: '$visitors' } } },
+    ])
+
+    const [signups, completed] = await Promise.all([
+      User.countDocuments({ ...range, referredByUserId: { $ne: null } }),
+      Referral.countDocuments({ ...range, ...completedFilter }),
+    ])
+
+    const topReferrers = await ReferralClick.aggregate([
+      { $match: { ...range, referrerId: { $ne: null } } },
+      {
+        $group: {
+          _id: '$referrerId',
+          clicks: { $sum: 1 },
+          convertedClicks: { $sum: { $cond: [{ $ne: ['$convertedUserId', null] }, 1, 0] } },
+        },
+      },
+      { $sort: { clicks: -1 } },
+      { $limit: limit },
+      { $lookup: { from: 'users', localField: '_id', foreignField: '_id', as: 'user' } },
+      { $unwind: '$user' },
+      {
+        $project: {
+          _id: 0,
+          referrerId: '$_id',
+          email: '$user.email',
+          name: '$user.name',
+          renopaysTag: '$user.renopaysTag',
+          clicks: 1,
+          convertedClicks: 1,
+        },
+      },
+    ])
+
+    const completedByReferrer = new Map(
+      (await Referral.aggregate([
+        { $match: { ...completedFilter, referrerId: { $in: topReferrers.map(referrer => referrer.referrerId) } } },
+        { $group: { _id: '$referrerId', completed: { $sum: 1 } } },
+      ])).map(entry => [entry._id.toString(), entry.completed])
+    )
+
+    const sources = await ReferralClick.aggregate([
+      { $match: range },
+      {
+        $group: {
+          _id: { $ifNull: ['$utm.source', null] },
+          clicks: { $sum: 1 },
+          convertedClicks: { $sum: { $cond: [{ $ne: ['$convertedUserId', null] }, 1, 0] } },
+        },
+      },
+      { $sort: { clicks: -1 } },
+      { $limit: limit },
+      { $project: { _id: 0, source: '$_id', clicks: 1, convertedClicks: 1 } },
+    ])
+
+    return {
+      totals: {
+        clicks: totals?.clicks || 0,
+        uniqueVisitors: totals?.uniqueVisitors || 0,
+        convertedClicks: totals?.convertedClicks || 0,
+        signups,
+        completed,
+      },
+      topReferrers: topReferrers.map(referrer => ({
+        ...referrer,
+        completed: completedByReferrer.get(referrer.referrerId.toString()) || 0,
+      })),
+      sources,
+    }
+  }
+}
+
+export const referralClickService = new ReferralClickService()
@@ -0,0 +1,92 @@
+import mongoose from 'mongoose'
+import { IUser, User } from '../models/User.js'
+import { IReferralRiskFlag } from '../models/Referral.js'
+import { OnboardingEvent } from '../models/OnboardingEvent.js'
+
+// Referee signing up this soon after the referrer's own signup is suspicious
+const TIGHT_SIGNUP_MINUTES = 10
+
+// This many signups under one referrer within the window is a burst
+const BURST_WINDOW_MINUTES = 10
+const BURST_SIGNUPS = 3
+
+const GMAIL_DOMAINS = new Set(['gmail.com', 'googlemail.com'])
+
+/**
+ * The mailbox an address delivers to: plus-address tags are dropped and, for
+ * Gmail, dots in the local part are ignored.
+ */
+export const canonicalEmail = (email: string): string => {
+  const [localPart, domain = ''] = email.trim().toLowerCase().split('@')
+  let local = localPart.split('+')[0]
+  let host = domain
+  if (GMAIL_DOMAINS.has(host)) {
+    local = local.replace(/\./g, '')
+    host = 'gmail.com'
+  }
+  return `${local}@${host}`
+}
+
+interface SignupFingerprint {
+  ip?: string
+  fingerprint?: string
+}
+
+/**
+ * Compares a referrer and the user they referred for signs of one person
+ * behind both accounts.
+ */
+class ReferralRiskService {
+  // IP and device fingerprint recorded when the user started onboarding
+  private async getSignupFingerprint(userId: mongoose.Types.ObjectId): Promise<SignupFingerprint> {
+    const event = await OnboardingEvent.findOne({ userId, eventType: 'onboarding_started' })
+      .sort({ createdAt: 1 })
+      .select('eventData')
+      .lean()
+    return {
+      ip: event?.eventData?.signup_ip || undefined,
+      fingerprint: event?.eventData?.fingerprint || undefined,
+    }
+  }
+
+  async analyze(referrer: IUser, referee: IUser): Promise<IReferralRiskFlag[]> {
+    const flags: IReferralRiskFlag[] = []
+
+    const [referrerSignup, refereeSignup] = await Promise.all([
+      this.getSignupFingerprint(referrer._id as mongoose.Types.ObjectId),
+      this.getSignupFingerprint(referee._id as mongoose.Types.ObjectId),
+    ])
+
+    if (refereeSignup.ip && refereeSignup.ip === referrerSignup.ip) {
+      flags.push({ signal: 'shared_ip', detail: 'Referrer and referee signed up from the same IP address' })
+    }
+    if (refereeSignup.fingerprint && refereeSignup.fingerprint === referrerSignup.fingerprint) {
+      flags.push({ signal: 'shared_fingerprint', detail: 'Referrer and referee signed up from the same device' })
+    }
+
+    if (canonicalEmail(referrer.email) === canonicalEmail(referee.email)) {
+      flags.push({ signal: 'email_alias', detail: 'Both emails deliver to the same mailbox' })
+    }
+
+    const minutesApart = Math.abs(referee.createdAt.getTime() - referrer.createdAt.getTime()) / 60000
+    if (minutesApart <= TIGHT_SIGNUP_MINUTES) {
+      flags.push({ signal: 'signup_timing', detail: `Referee signed up ${Math.round(minutesApart)} minutes after the referrer` })
+    }
+
+    const windowMs = BURST_WINDOW_MINUTES * 60000
+    const burst = await User.countDocuments({
+      referredByUserId: referrer._id,
+      createdAt: {
+        $gte: new Date(referee.createdAt.getTime() - windowMs),
+        $lte: new Date(referee.createdAt.getTime() + windowMs),
+      },
+    })
+    if (burst >= BURST_SIGNUPS) {
+      flags.push({ signal: 'signup_timing', detail: `${burst} referred signups within ${BURST_WINDOW_MINUTES} minutes` })
+    }
+
+    return flags
+  }
+}
+
+export const referralRiskService = new ReferralRiskService()
@@ -0,0 +1,624 @@
+import mongoose from 'mongoose'
+import { User, IUser } from '../models/User.js'
+import { Referral, IReferral } from '../models/Referral.js'
+import { ReferralLevel } from '../models/ReferralLevel.js'
+import { ReferralLevelEarning } from '../models/ReferralLevelEarning.js'
+import { ReferralCampaign, IReferralCampaign } from '../models/ReferralCampaign.js'
+import { PointsTransaction } from '../models/PointsTransaction.js'
+import { awardPoints, deductPoints } from '../utils/pointsManager.js'
+import { getRewardRule, ruleMetadata } from '../utils/rewardRules.js'
+import { achievementService } from './achievementService.js'
+import { referralRiskService } from './referralRiskService.js'
+import { domainEvents, DomainEventName } from './domainEvents.js'
+import { logInfo, logWarn } from '../utils/logger.js'
+
+// Events that can complete the referral of the user they are about
+const REFERRAL_EVENTS: DomainEventName[] = ['email_verified', 'telegram_verified', 'telegram_followed', 'renopays_tag_created']
+
+// Deepest level the reward table and the downline view may reach
+export const MAX_REFERRAL_LEVEL = 10
+
+const CACHE_TTL_MS = 60 * 1000
+
+// Attempts at reserving capped level points before leaving it to a retry
+const LEVEL_RESERVE_ATTEMPTS = 5
+
+// Users listed per level in the downline view; counts are always complete
+const DOWNLINE_USERS_PER_LEVEL = 200
+
+// Flagged referrals only pay once approved
+const PAYABLE_REVIEW_STATUSES = ['clear', 'approved']
+
+export class ReferralError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message)
+  }
+}
+
+// Names below the first level belong to people the user did not refer, so
+// only their initial is shown: "Jane Doe" -> "J***"
+const maskName = (name?: string | null): string | null => (name?.trim() ? `${name.trim().charAt(0)}***` : null)
+
+// Ledger metadata that attributes an award to a campaign
+const campaignMetadata = (campaign: IReferralCampaign | null) => (
+  campaign ? { campaignId: (campaign._id as mongoose.Types.ObjectId).toString(), campaign: campaign.code } : {}
+)
+
+export interface ReferralLevelDefinition {
+  level: number
+  points: number
+  maxPoints: number | null
+}
+
+export interface ReferralRequirements {
+  emailVerified: boolean
+  telegramVerified: boolean
+  telegramFollowed: boolean
+  renopaysTagCreated: boolean
+}
+
+class ReferralService {
+  private levelCache: { levels: ReferralLevelDefinition[]; expiresAt: number } | null = null
+
+  /**
+   * Rewards for levels above the direct referrer, ordered by level.
+   */
+  async getLevels(): Promise<ReferralLevelDefinition[]> {
+    if (this.levelCache && this.levelCache.expiresAt > Date.now()) {
+      return this.levelCache.levels
+    }
+
+    const saved = await ReferralLevel.find().sort({ level: 1 }).lean()
+    const levels = saved.map(level => ({ level: level.level, points: level.points, maxPoints: level.maxPoints ?? null }))
+
+    this.levelCache = { levels, expiresAt: Date.now() + CACHE_TTL_MS }
+    return levels
+  }
+
+  /**
+   * Replaces the level table. Levels must run 2, 3, ... without gaps so the
+   * reward depth is unambiguous; an empty table turns multi-level rewards off.
+   */
+  async replaceLevels(levels: ReferralLevelDefinition[]): Promise<ReferralLevelDefinition[]> {
+    const sorted = [...levels].sort((a, b) => a.level - b.level)
+    if (sorted.some((level, index) => level.level !== index + 2)) {
+      throw new ReferralError('Levels must start at 2 and have no gaps')
+    }
+    if (sorted.length + 1 > MAX_REFERRAL_LEVEL) {
+      throw new ReferralError(`At most ${MAX_REFERRAL_LEVEL} levels are supported`)
+    }
+
+    const session = await mongoose.startSession()
+    try {
+      await session.withTransaction(async () => {
+        await ReferralLevel.deleteMany({}, { session })
+        if (sorted.length > 0) {
+          await ReferralLevel.insertMany(sorted, { session })
+        }
+      })
+    } finally {
+      await session.endSession()
+    }
+
+    this.levelCache = null
+    logInfo('Referral levels replaced', { levels: sorted.map(level => `${level.level}:${level.points}`).join(', ') })
+    return this.getLevels()
+  }
+
+  /**
+   * Steps a referred user has to finish before the referral counts.
+   */
+  getRequirements(user: IUser): ReferralRequirements {
+    return {
+      emailVerified: !!user.emailVerified,
+      telegramVerified: !!user.telegramVerified,
+      telegramFollowed: !!user.telegramFollowed,
+      renopaysTagCreated: !!user.renopaysTag,
+    }
+  }
+
+  isComplete(requirements: ReferralRequirements): boolean {
+    return Object.values(requirements).every(Boolean)
+  }
+
+  private async findReferrer(user: IUser) {
+    if (user.referredByUserId) {
+      return User.findById(user.referredByUserId)
+    }
+    return user.referredBy ? User.findOne({ renopaysTag: user.referredBy }) : null
+  }
+
+  /**
+   * Brings the user's referral record in line with their verification state
+   * and pays out both sides once every requirement is met. Safe to call
+   * repeatedly: awards are idempotent per referral.
+   */
+  async evaluate(userId: string): Promise<IReferral | null> {
+    const user = await User.findById(userId)
+    if (!user) {
+      return null
+    }
+    if (!(user.referredByUserId || user.referredBy)) {
+      if (user.campaignId) {
+        await this.awardCampaignSignup(user)
+      }
+      return null
+    }
+
+    const referrer = await this.findReferrer(user)
+    if (!referrer) {
+      return null
+    }
+
+    const requirements = this.getRequirements(user)
+    const complete = this.isComplete(requirements)
+
+    const update: any = {
+      $set: {
+        ...requirements,
+        allVerificationsComplete: complete,
+        status: complete ? 'completed' : 'pending',
+      },
+      $setOnInsert: { referredName: user.name, campaignId: user.campaignId || null },
+    }
+    let referral: IReferral = await Referral.findOneAndUpdate(
+      { referrerId: referrer._id, referredEmail: user.email.toLowerCase() },
+      update,
+      { upsert: true, new: true }
+    )
+
+    if (complete && !referral.completedAt) {
+      referral = await Referral.findOneAndUpdate(
+        { _id: referral._id, completedAt: null },
+        { completedAt: new Date() },
+        { new: true }
+      ) || referral
+    }
+
+    if (complete && !referral.pointsAwarded && referral.reviewStatus === 'clear') {
+      referral = await this.screen(referral, referrer, user)
+    }
+
+    if (complete && !referral.pointsAwarded && PAYABLE_REVIEW_STATUSES.includes(referral.reviewStatus)) {
+      await this.award(referral, referrer, user)
+    }
+
+    return referral
+  }
+
+  /**
+   * Signups through a house campaign have no referrer; the campaign's
+   * referee amount is paid to them once every requirement is met.
+   */
+  private async awardCampaignSignup(user: IUser): Promise<void> {
+    if (!this.isComplete(this.getRequirements(user))) {
+      return
+    }
+
+    const campaign = await ReferralCampaign.findById(user.campaignId)
+    if (!campaign?.refereePoints) {
+      return
+    }
+
+    const userId = (user._id as mongoose.Types.ObjectId).toString()
+    const result = await awardPoints(
+      userId,
+      campaign.refereePoints,
+      'Campaign bonus - completed all verifications',
+      campaignMetadata(campaign),
+      `campaign:${(campaign._id as mongoose.Types.ObjectId).toString()}:${userId}`
+    )
+    if (!result.success) {
+      logWarn('Failed to award campaign signup bonus', { email: user.email, campaign: campaign.code })
+    }
+  }
+
+  /**
+   * Runs the risk analyzer before the first payout. A flagged referral moves
+   * to pending_review and pays nothing until an admin approves it.
+   */
+  private async screen(referral: IReferral, referrer: IUser, user: IUser): Promise<IReferral> {
+    const flags = await referralRiskService.analyze(referrer, user)
+    if (flags.length === 0) {
+      return referral
+    }
+
+    const flagged = await Referral.findOneAndUpdate(
+      { _id: referral._id, reviewStatus: 'clear' },
+      { reviewStatus: 'pending_review', riskFlags: flags, flaggedAt: new Date() },
+      { new: true }
+    )
+
+    logWarn('Referral flagged for review', {
+      referralId: (referral._id as mongoose.Types.ObjectId).toString(),
+      referrerEmail: referrer.email,
+      referredEmail: user.email,
+      signals: flags.map(flag => flag.signal).join(', '),
+    })
+
+    return flagged || (await Referral.findById(referral._id)) || referral
+  }
+
+  private async getReviewable(referralId: string, expected: IReferral['reviewStatus'][]) {
+    const referral = mongoose.isValidObjectId(referralId) ? await Referral.findById(referralId) : null
+    if (!referral) {
+      throw new ReferralError('Referral not found', 404)
+    }
+    if (!expected.includes(referral.reviewStatus)) {
+      throw new ReferralError(`Referral is ${referral.reviewStatus.replace('_', ' ')}`)
+    }
+    return referral
+  }
+
+  /**
+   * Releases a flagged referral; its held points are paid out right away if
+   * the referred user has finished every step.
+   */
+  async approve(referralId: string, adminId?: string | number, note?: string): Promise<IReferral> {
+    await this.getReviewable(referralId, ['pending_review'])
+
+    const approved = await Referral.findOneAndUpdate(
+      { _id: referralId, reviewStatus: 'pending_review' },
+      {
+        reviewStatus: 'approved',
+        reviewedBy: adminId ? new mongoose.Types.ObjectId(String(adminId)) : undefined,
+        reviewedAt: new Date(),
+        reviewNote: note,
+      },
+      { new: true }
+    )
+    if (!approved) {
+      throw new ReferralError('Referral was reviewed by someone else')
+    }
+
+    const referee = await User.findOne({ email: approved.referredEmail }).select('_id')
+    if (referee) {
+      return (await this.evaluate((referee._id as mongoose.Types.ObjectId).toString())) || approved
+    }
+    return approved
+  }
+
+  /**
+   * Rejects a referral. Points it already paid (referrer, referee and upline)
+   * are deducted again, as far as each user's balance allows.
+   */
+  async void(referralId: string, adminId?: string | number, note?: string): Promise<IReferral> {
+    const current = await this.getReviewable(referralId, ['clear', 'pending_review', 'approved'])
+
+    const voided = await Referral.findOneAndUpdate(
+      { _id: referralId, reviewStatus: current.reviewStatus },
+      {
+        reviewStatus: 'voided',
+        reviewedBy: adminId ? new mongoose.Types.ObjectId(String(adminId)) : undefined,
+        reviewedAt: new Date(),
+        reviewNote: note,
+      },
+      { new: true }
+    )
+    if (!voided) {
+      throw new ReferralError('Referral was reviewed by someone else')
+    }
+
+    // The referrer's count was raised when the referral paid out
+    if (current.pointsAwarded) {
+      await User.updateOne({ _id: voided.referrerId, successfulReferrals: { $gt: 0 } }, { $inc: { successfulReferrals: -1 } })
+    }
+
+    const clawedBack = await this.clawBack(voided)
+    if (clawedBack > 0) {
+      await Referral.updateOne({ _id: voided._id }, { $inc: { pointsClawedBack: clawedBack } })
+      voided.pointsClawedBack += clawedBack
+    }
+
+    logWarn('Referral voided', { referralId, clawedBack, reviewedBy: adminId })
+    return voided
+  }
+
+  private async clawBack(referral: IReferral): Promise<number> {
+    const referralId = (referral._id as mongoose.Types.ObjectId).toString()
+    const credits = await PointsTransaction.find({ type: 'credit', 'metadata.referralId': referralId }).lean()
+
+    let total = 0
+    for (const credit of credits) {
+      const user = await User.findById(credit.userId).select('points')
+      const amount = Math.min(credit.amount, user?.points || 0)
+      if (amount < credit.amount) {
+        logWarn('Referral clawback limited by balance', { referralId, userId: credit.userId.toString(), owed: credit.amount, deducted: amount })
+      }
+      if (amount <= 0) {
+        continue
+      }
+
+      const result = await deductPoints(
+        credit.userId.toString(),
+        amount,
+        'Referral voided',
+        { referralId, clawback: true, transactionId: credit._id.toString(), campaignId: credit.metadata?.campaignId },
+        `referral:${referralId}:clawback:${credit._id.toString()}`
+      )
+      if (result.success && !result.duplicate) {
+        total += amount
+      }
+    }
+
+    return total
+  }
+
+  private async award(referral: IReferral, referrer: IUser, user: IUser): Promise<void> {
+    const referralId = (referral._id as mongoose.Types.ObjectId).toString()
+    const referrerRule = await getRewardRule('referral_referrer')
+    const refereeRule = await getRewardRule('referral_referee')
+
+    // Campaign codes can override both amounts
+    const campaign = referral.campaignId ? await ReferralCampaign.findById(referral.campaignId) : null
+    const referrerPoints = campaign?.referrerPoints ?? referrerRule.points
+    const refereePoints = campaign?.refereePoints ?? refereeRule.points
+
+    // Award points to referrer securely (per successful referral)
+    const referrerPointsResult = referrerPoints > 0
+      ? await awardPoints(
+          (referrer._id as mongoose.Types.ObjectId).toString(),
+          referrerPoints,
+          'Successful referral completed',
+          { referredEmail: user.email, referralId, referralLevel: 1, ...ruleMetadata(referrerRule), ...campaignMetadata(campaign) },
+          `referral:${referralId}:referrer`
+        )
+      : { success: true, duplicate: false, newBalance: referrer.points || 0 }
+
+    if (referrerPointsResult.success && !referrerPointsResult.duplicate) {
+      await User.updateOne({ _id: referrer._id }, { $inc: { successfulReferrals: 1 } })
+      achievementService.handleEvent((referrer._id as mongoose.Types.ObjectId).toString(), 'referral_completed')
+
+      logInfo('Referral points awarded to referrer', {
+        referrerEmail: referrer.email,
+        referredEmail: user.email,
+        points: referrerPoints,
+      })
+    } else if (!referrerPointsResult.success) {
+      logWarn('Failed to award referral points to referrer', {
+        referrerEmail: referrer.email,
+        referredEmail: user.email,
+      })
+    }
+
+    // Award bonus points to referred user securely
+    const referredPointsResult = refereePoints > 0
+      ? await awardPoints(
+          (user._id as mongoose.Types.ObjectId).toString(),
+          refereePoints,
+          'Referral bonus - completed all verifications',
+          { referrerEmail: referrer.email, referralId, ...ruleMetadata(refereeRule), ...campaignMetadata(campaign) },
+          `referral:${referralId}:referee`
+        )
+      : { success: true, newBalance: user.points || 0 }
+
+    if (referredPointsResult.success) {
+      logInfo('Referral bonus points awarded to referred user', {
+        referredEmail: user.email,
+        points: refereePoints,
+      })
+    } else {
+      logWarn('Failed to award referral bonus points', {
+        referredEmail: user.email,
+      })
+    }
+
+    const uplineAwarded = await this.awardUpline(referral, referrer, user, campaign)
+
+    // Mark points as awarded only if everything succeeded; a later event retries
+    if (referrerPointsResult.success && referredPointsResult.success && uplineAwarded) {
+      await Referral.updateOne({ _id: referral._id }, { pointsAwarded: true })
+    }
+  }
+
+  /**
+   * The referrer's own referrers, nearest first: index 0 is level 2. Stops at
+   * the first user already seen, so a cycle in referredByUserId cannot pay
+   * anyone twice or pay the referred user.
+   */
+  private async getUpline(referrer: IUser, user: IUser, depth: number): Promise<IUser[]> {
+    const seen = new Set([(user._id as mongoose.Types.ObjectId).toString(), (referrer._id as mongoose.Types.ObjectId).toString()])
+    const upline: IUser[] = []
+
+    let current = referrer
+    while (upline.length < depth && current.referredByUserId) {
+      const parentId = current.referredByUserId.toString()
+      if (seen.has(parentId)) {
+        logWarn('Referral cycle detected', { userId: (user._id as mongoose.Types.ObjectId).toString(), at: parentId })
+        break
+      }
+      seen.add(parentId)
+
+      const parent = await User.findById(parentId)
+      if (!parent) {
+        break
+      }
+      upline.push(parent)
+      current = parent
+    }
+
+    return upline
+  }
+
+  // Points an ancestor earned from referrals at this level, from the ledger
+  private async getLevelEarnings(userId: mongoose.Types.ObjectId, level: number): Promise<number> {
+    const [result] = await PointsTransaction.aggregate([
+      { $match: { userId, type: 'credit', 'metadata.referralLevel': level } },
+      { $group: { _id: null, total: { $sum: '$amount' } } },
+    ])
+    return result?.total || 0
+  }
+
+  /**
+   * Takes up to level.points of the ancestor's remaining cap for the level.
+   * The counter only moves if nobody changed it since it was read, so
+   * concurrent referrals cannot go past the cap. Returns the points reserved,
+   * or null when the counter kept changing and the award should be retried.
+   */
+  private async reserveLevelPoints(userId: mongoose.Types.ObjectId, level: ReferralLevelDefinition): Promise<number | null> {
+    // Counters start from the ledger for ancestors paid before they existed
+    let counter = await ReferralLevelEarning.findOne({ userId, level: level.level })
+    if (!counter) {
+      const earned = await this.getLevelEarnings(userId, level.level)
+      counter = await ReferralLevelEarning.findOneAndUpdate(
+        { userId, level: level.level },
+        { $setOnInsert: { points: earned } },
+        { upsert: true, new: true }
+      )
+    }
+
+    for (let attempt = 0; attempt < LEVEL_RESERVE_ATTEMPTS && counter; attempt++) {
+      const points = Math.min(level.points, Math.max(0, level.maxPoints! - counter.points))
+      if (points === 0) {
+        return 0
+      }
+
+      const reserved = await ReferralLevelEarning.findOneAndUpdate(
+        { _id: counter._id, points: counter.points },
+        { $inc: { points } },
+        { new: true }
+      )
+      if (reserved) {
+        return points
+      }
+      counter = await ReferralLevelEarning.findById(counter._id)
+    }
+
+    return null
+  }
+
+  private async releaseLevelPoints(userId: mongoose.Types.ObjectId, level: number, points: number): Promise<void> {
+    await ReferralLevelEarning.updateOne({ userId, level }, { $inc: { points: -points } })
+  }
+
+  /**
+   * Pays each configured level above the direct referrer, trimmed to the
+   * level's cap. Returns false when an award failed and should be retried.
+   */
+  private async awardUpline(referral: IReferral, referrer: IUser, user: IUser, campaign: IReferralCampaign | null): Promise<boolean> {
+    const levels = (await this.getLevels()).filter(level => level.points > 0)
+    if (levels.length === 0) {
+      return true
+    }
+
+    const referralId = (referral._id as mongoose.Types.ObjectId).toString()
+    const upline = await this.getUpline(referrer, user, levels[levels.length - 1].level - 1)
+    let allAwarded = true
+
+    for (const level of levels) {
+      const ancestor = upline[level.level - 2]
+      if (!ancestor) {
+        break
+      }
+
+      const ancestorId = ancestor._id as mongoose.Types.ObjectId
+      const capped = level.maxPoints !== null
+      const points = capped ? await this.reserveLevelPoints(ancestorId, level) : level.points
+      if (points === null) {
+        allAwarded = false
+        logWarn('Could not reserve capped upline referral points', { ancestorEmail: ancestor.email, referredEmail: user.email, level: level.level })
+        continue
+      }
+      if (points === 0) {
+        continue
+      }
+
+      const result = await awardPoints(
+        ancestorId.toString(),
+        points,
+        `Level ${level.level} referral completed`,
+        { referredEmail: user.email, referralId, referralLevel: level.level, referrerEmail: referrer.email, ...campaignMetadata(campaign) },
+        `referral:${referralId}:level:${level.level}`
+      )
+
+      // A failed award, or one already paid earlier, gives the reservation back
+      if (capped && (!result.success || result.duplicate)) {
+        await this.releaseLevelPoints(ancestorId, level.level, points)
+      }
+
+      if (!result.success) {
+        allAwarded = false
+        logWarn('Failed to award upline referral points', { ancestorEmail: ancestor.email, referredEmail: user.email, level: level.level })
+      } else if (!result.duplicate) {
+        logInfo('Upline referral points awarded', { ancestorEmail: ancestor.email, referredEmail: user.email, level: level.level, points })
+      }
+    }
+
+    return allAwarded
+  }
+
+  /**
+   * Users below the given user in the referral tree, level by level (level 1
+   * are the users they referred directly). Each user appears once, at the
+   * shallowest level, even if referral links form a cycle. Names are masked
+   * beyond level 1.
+   */
+  async getDownline(userId: mongoose.Types.ObjectId, depth: number) {
+    const seen = new Set([userId.toString()])
+    const levels = []
+    let frontier = [userId]
+
+    for (let level = 1; level <= depth && frontier.length > 0; level++) {
+      const members = (await User.find({ referredByUserId: { $in: frontier } })
+        .select('name email createdAt referredByUserId')
+        .sort({ createdAt: 1 })
+        .lean())
+        .filter(member => !seen.has(member._id.toString()))
+      members.forEach(member => seen.add(member._id.toString()))
+
+      const completedEmails = new Set(
+        (await Referral.find({ referredEmail: { $in: members.map(member => member.email) }, status: 'completed' })
+          .select('referredEmail')
+          .lean())
+          .map(completed => completed.referredEmail)
+      )
+
+      levels.push({
+        level,
+        total: members.length,
+        completed: members.filter(member => completedEmails.has(member.email)).length,
+        users: members.slice(0, DOWNLINE_USERS_PER_LEVEL).map(member => ({
+          id: member._id,
+          name: level === 1 ? member.name : maskName(member.name),
+          referredBy: member.referredByUserId,
+          joinedAt: member.createdAt,
+          completed: completedEmails.has(member.email),
+        })),
+      })
+
+      frontier = members.map(member => member._id as mongoose.Types.ObjectId)
+    }
+
+    return levels
+  }
+
+  /**
+   * Current referral state of a referred user, without changing anything.
+   */
+  async getStatus(user: IUser) {
+    const requirements = this.getRequirements(user)
+    const referral = await Referral.findOne({ referredEmail: user.email.toLowerCase() })
+      .select('status allVerificationsComplete pointsAwarded completedAt')
+      .lean()
+
+    return {
+      allComplete: this.isComplete(requirements),
+      requirements,
+      referral: referral
+        ? {
+            status: referral.status,
+            pointsAwarded: referral.pointsAwarded,
+            completedAt: referral.completedAt || null,
+          }
+        : null,
+    }
+  }
+}
+
+export const referralService = new ReferralService()
+
+for (const event of REFERRAL_EVENTS) {
+  domainEvents.subscribe(event, async ({ userId }) => {
+    await referralService.evaluate(userId)
+  })
+}
@@ -0,0 +1,136 @@
+import mongoose from 'mongoose'
+import { Season, ISeason } from '../models/Season.js'
+import { SeasonStanding } from '../models/SeasonStanding.js'
+import { PointsTransaction } from '../models/PointsTransaction.js'
+import { leaderboardService, RANKED_TRANSACTIONS_FILTER } from './leaderboardService.js'
+import { logInfo, logError } from '../utils/logger.js'
+
+export class SeasonError extends Error {}
+
+interface OpenSeasonInput {
+  name: string
+  description?: string
+  startsAt: Date
+  endsAt: Date
+}
+
+/**
+ * Seasons score points earned inside their date range from the points ledger,
+ * so season totals start at zero while User.points keeps accumulating.
+ */
+class SeasonService {
+  /**
+   * The active season running now. Seasons past their end are not returned
+   * and are closed in the background, archiving their standings.
+   */
+  async getCurrentSeason(now: Date = new Date()): Promise<ISeason | null> {
+    this.closeExpiredSeasons(now).catch(error => {
+      logError('Error closing expired seasons', { error: error?.message })
+    })
+
+    return Season.findOne({
+      status: 'active',
+      startsAt: { $lte: now },
+      endsAt: { $gt: now },
+    }).sort({ startsAt: -1 })
+  }
+
+  private async closeExpiredSeasons(now: Date): Promise<void> {
+    const expired = await Season.find({ status: 'active', endsAt: { $lte: now } }).select('_id')
+    for (const season of expired) {
+      try {
+        await this.closeSeason(String(season._id))
+      } catch (error) {
+        // Another request closed it first
+        if (!(error instanceof SeasonError)) {
+          throw error
+        }
+      }
+    }
+  }
+
+  async openSeason(input: OpenSeasonInput, adminId?: string | number): Promise<ISeason> {
+    if (input.endsAt <= input.startsAt) {
+      throw new SeasonError('Season end must be after its start')
+    }
+
+    // Only one season may run at a time
+    const overlapping = await Season.findOne({
+      status: 'active',
+      startsAt: { $lt: input.endsAt },
+      endsAt: { $gt: input.startsAt },
+    })
+    if (overlapping) {
+      throw new SeasonError(`Season overlaps with active season "${overlapping.name}"`)
+    }
+
+    const season = await Season.create({
+      ...input,
+      status: 'active',
+      createdBy: adminId,
+    })
+
+    logInfo('Season opened', { seasonId: String(season._id), name: season.name })
+    return season
+  }
+
+  /**
+   * Closes a season and archives its final standings in one transaction, so
+   * a season is never marked closed without a complete snapshot.
+   */
+  async closeSeason(seasonId: string, adminId?: string | number): Promise<ISeason> {
+    const session = await mongoose.startSession()
+
+    try {
+      await session.withTransaction(async () => {
+        const now = new Date()
+        const season = await Season.findOneAndUpdate(
+          { _id: seasonId, status: 'active' },
+          { status: 'closed', closedAt: now, closedBy: adminId },
+          { new: true, session }
+        )
+        if (!season) {
+          throw new SeasonError('Season not found or already closed')
+        }
+
+        const end = season.endsAt < now ? season.endsAt : now
+        const standings = await leaderboardService.computeStandings(season.startsAt, end)
+
+        if (standings.length > 0) {
+          await SeasonStanding.insertMany(
+            standings.map(standing => ({ ...standing, seasonId: season._id })),
+            { session }
+          )
+        }
+
+        season.participants = standings.length
+        await season.save({ session })
+      })
+
+      const season = await Season.findById(seasonId) as ISeason
+      logInfo('Season closed', { seasonId, participants: season.participants })
+      return season
+    } finally {
+      await session.endSession()
+    }
+  }
+
+  async getUserSeasonScore(season: ISeason, userId: string): Promise<number> {
+    const end = season.closedAt && season.closedAt < season.endsAt ? season.closedAt : season.endsAt
+
+    const [result] = await PointsTransaction.aggregate([
+      {
+        $match: {
+          ...RANKED_TRANSACTIONS_FILTER,
+          userId: new mongoose.Types.ObjectId(userId),
+          createdAt: { $gte: season.startsAt, $lt: end },
+        },
+      },
+      { $group: { _id: null, total: { $sum: '$amount' } } },
+    ])
+
+    return Math.max(result?.total || 0, 0)
+  }
+}
+
+export const seasonService = new SeasonService()
@@ -0,0 +1,581 @@
+import mongoose from 'mongoose'
+import { ITask } from '../models/Task.js'
+import { UserTask, IUserTask } from '../models/UserTask.js'
+import { TaskSubmission, ITaskSubmission } from '../models/TaskSubmission.js'
+import { taskService } from './taskService.js'
+import { achievementService } from './achievementService.js'
+import { questService } from './questService.js'
+import { User } from '../models/User.js'
+import { awardPoints } from '../utils/pointsManager.js'
+import { logError } from '../utils/logger.js'
+
+export class SubmissionError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message)
+  }
+}
+
+export const DEFAULT_CLAIM_MINUTES = 10
+export const MAX_CLAIM_MINUTES = 60
+
+// Statuses that wait for a reviewer: new submissions and appeals
+const REVIEWABLE_STATUSES = ['submitted', 'appealed']
+
+export interface SubmissionQueueFilter {
+  status?: 'submitted' | 'appealed'
+  taskId?: string
+  userId?: string
+  from?: Date
+  to?: Date
+  claim?: 'mine' | 'unclaimed' | 'available' | 'all'
+  duplicateLink?: boolean
+  sort?: 'newest' | 'oldest'
+}
+
+export interface ReviewResult {
+  submissionId: string
+  success: boolean
+  status?: string
+  pointsAwarded?: boolean
+  error?: string
+}
+
+// A populated ref is null once the document it points to has been deleted
+interface PopulatedRef {
+  _id: mongoose.Types.ObjectId
+}
+
+const toObjectId = (id: string | number): mongoose.Types.ObjectId => new mongoose.Types.ObjectId(String(id))
+
+// Matches submissions nobody else holds an unexpired claim on
+const claimableBy = (reviewerId: mongoose.Types.ObjectId, now: Date) => ({
+  $or: [
+    { claimedBy: null },
+    { claimExpiresAt: { $lte: now } },
+    { claimedBy: reviewerId },
+  ],
+})
+
+class SubmissionService {
+  /**
+   * Awards the task's points for a completed or approved record and lets
+   * achievements and quests react to it. The ledger key is derived from the
+   * record, so calling this again never pays twice.
+   */
+  async rewardCompletion(userTask: IUserTask, task: ITask, reason: string): Promise<void> {
+    const userId = userTask.userId.toString()
+    const taskId = (task._id as mongoose.Types.ObjectId).toString()
+
+    if (task.pointsReward > 0) {
+      const pointsResult = await awardPoints(
+        userId,
+        task.pointsReward,
+        reason,
+        { taskId, taskType: task.taskType },
+        `task:${(userTask._id as mongoose.Types.ObjectId).toString()}`
+      )
+
+      if (pointsResult.success) {
+        userTask.pointsAwarded = true
+        await userTask.save()
+      }
+    }
+
+    achievementService.handleEvent(userId, 'task_completed')
+    questService.handleTaskCompleted(userId, taskId)
+  }
+
+  async listQueue(filter: SubmissionQueueFilter, reviewerId: string | number, page: number, limit: number) {
+    const now = new Date()
+    const reviewer = toObjectId(reviewerId)
+
+    const query: any = { status: filter.status || 'submitted' }
+    if (filter.taskId) {
+      query.taskId = toObjectId(filter.taskId)
+    }
+    if (filter.userId) {
+      query.userId = toObjectId(filter.userId)
+    }
+    if (filter.from || filter.to) {
+      query.submittedAt = {
+        ...(filter.from && { $gte: filter.from }),
+        ...(filter.to && { $lt: filter.to }),
+      }
+    }
+    if (filter.duplicateLink !== undefined) {
+      query.duplicateLink = filter.duplicateLink
+    }
+    if (filter.claim === 'mine') {
+      query.claimedBy = reviewer
+      query.claimExpiresAt = { $gt: now }
+    } else if (filter.claim === 'unclaimed') {
+      query.$or = [{ claimedBy: null }, { claimExpiresAt: { $lte: now } }]
+    } else if (filter.claim === 'available') {
+      Object.assign(query, claimableBy(reviewer, now))
+    }
+
+    const [found, total] = await Promise.all([
+      UserTask.find(query)
+        .populate<{ userId: PopulatedRef | null }>('userId', 'email name')
+        .populate<{ taskId: PopulatedRef | null }>('taskId', 'title description taskType pointsReward')
+        .populate<{ claimedBy: PopulatedRef | null }>('claimedBy', 'email name')
+        .sort({ submittedAt: filter.sort === 'oldest' ? 1 : -1, _id: 1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      UserTask.countDocuments(query),
+    ])
+
+    // Records of deleted tasks or users stay behind and cannot be reviewed
+    const live = found.filter(submission => submission.taskId && submission.userId)
+
+    // Appeals show the note and the decision being appealed; the reviewer
+    // who made that decision cannot take the appeal
+    const appeals = query.status === 'appealed'
+      ? await TaskSubmission.find({
+          userTaskId: { $in: live.map(submission => submission._id) },
+          'appeal.filedAt': { $ne: null },
+          'appeal.decision': null,
+        })
+          .populate<{ decidedBy: PopulatedRef | null }>('decidedBy', 'email name')
+          .lean()
+      : []
+
+    // Other accounts that submitted the same link for the same task
+    const reuse = await Promise.all(live.map(submission =>
+      submission.normalizedLink
+        ? this.findLinkReuse(submission.taskId!._id, submission.normalizedLink, submission.userId!._id)
+        : Promise.resolve([])
+    ))
+    const reusers = await User.find({ _id: { $in: reuse.flat() } }).select('email name').lean()
+
+    return {
+      submissions: live.map((submission, index) => {
+        const claimActive = !!submission.claimedBy && !!submission.claimExpiresAt && submission.claimExpiresAt > now
+        const appealed = appeals.find(appeal => appeal.userTaskId.toString() === submission._id.toString())
+        return {
+          ...submission,
+          duplicateLinkUsers: reusers.filter(user => reuse[index].some(id => id.toString() === user._id.toString())),
+          ...(appealed && {
+            appeal: {
+              note: appealed.appeal!.note,
+              filedAt: appealed.appeal!.filedAt,
+              attempt: appealed.attempt,
+              rejectedBy: appealed.decidedBy,
+              rejectedAt: appealed.decidedAt,
+              rejectionReason: appealed.reason,
+              canDecide: !appealed.decidedBy || appealed.decidedBy._id.toString() !== reviewer.toString(),
+            },
+          }),
+          claim: claimActive
+            ? {
+                claimedBy: submission.claimedBy,
+                expiresAt: submission.claimExpiresAt,
+                isMine: submission.claimedBy!._id.toString() === reviewer.toString(),
+              }
+            : null,
+        }
+      }),
+      total,
+    }
+  }
+
+  /**
+   * Accounts other than excludeUserId that submitted the same normalized
+   * link for the task, in any attempt.
+   */
+  async findLinkReuse(
+    taskId: mongoose.Types.ObjectId | string,
+    normalizedLink: string,
+    excludeUserId: mongoose.Types.ObjectId | string
+  ): Promise<mongoose.Types.ObjectId[]> {
+    const filter = { taskId, normalizedLink, userId: { $ne: excludeUserId } }
+    const [fromAttempts, fromRecords] = await Promise.all([
+      TaskSubmission.distinct('userId', filter),
+      UserTask.distinct('userId', filter),
+    ])
+
+    const unique = new Map<string, mongoose.Types.ObjectId>()
+    for (const userId of [...fromAttempts, ...fromRecords]) {
+      unique.set(userId.toString(), userId as mongoose.Types.ObjectId)
+    }
+    return [...unique.values()]
+  }
+
+  /**
+   * Locks a submission to one reviewer for a number of minutes. Claiming
+   * again extends the reviewer's own lease.
+   */
+  async claim(submissionId: string, reviewerId: string | number, minutes: number = DEFAULT_CLAIM_MINUTES) {
+    const now = new Date()
+    const reviewer = toObjectId(reviewerId)
+    const leaseMinutes = Math.min(Math.max(1, minutes), MAX_CLAIM_MINUTES)
+
+    const claimed = await UserTask.findOneAndUpdate(
+      { _id: submissionId, status: { $in: REVIEWABLE_STATUSES }, ...claimableBy(reviewer, now) },
+      { claimedBy: reviewer, claimExpiresAt: new Date(now.getTime() + leaseMinutes * 60 * 1000) },
+      { new: true }
+    )
+
+    if (!claimed) {
+      throw await this.explainUnavailable(submissionId, REVIEWABLE_STATUSES)
+    }
+
+    return claimed
+  }
+
+  async release(submissionId: string, reviewerId: string | number) {
+    const released = await UserTask.findOneAndUpdate(
+      { _id: submissionId, claimedBy: toObjectId(reviewerId) },
+      { claimedBy: null, claimExpiresAt: null },
+      { new: true }
+    )
+
+    if (!released) {
+      throw new SubmissionError('You do not hold a claim on this submission', 409)
+    }
+
+    return released
+  }
+
+  private async explainUnavailable(submissionId: string, expectedStatuses: string[]): Promise<SubmissionError> {
+    const current = await UserTask.findById(submissionId).select('status claimedBy claimExpiresAt')
+    if (!current) {
+      return new SubmissionError('Submission not found', 404)
+    }
+    if (!expectedStatuses.includes(current.status)) {
+      return new SubmissionError(`Submission is not in ${expectedStatuses.join(' or ')} status`)
+    }
+    return new SubmissionError('Submission is claimed by another reviewer', 409)
+  }
+
+  /**
+   * Moves a submission from fromStatus to approved and awards its points.
+   * The status change is a single conditional update, so two reviewers
+   * cannot both approve it.
+   */
+  private async applyApproval(
+    submissionId: string,
+    task: ITask,
+    reviewer: mongoose.Types.ObjectId,
+    fromStatus: 'submitted' | 'appealed',
+    reason: string
+  ): Promise<IUserTask> {
+    const now = new Date()
+
+    // Submissions made before the task ended can still be approved, but
+    // never beyond the completion cap
+    if (!(await taskService.reserveCompletionSlot(task._id as mongoose.Types.ObjectId))) {
+      throw new SubmissionError('This task has reached its completion limit')
+    }
+
+    const approved = await UserTask.findOneAndUpdate(
+      { _id: submissionId, status: fromStatus, ...claimableBy(reviewer, now) },
+      {
+        status: 'approved',
+        reviewedAt: now,
+        reviewedBy: reviewer,
+        completedAt: now,
+        rejectionReason: null,
+        claimedBy: null,
+        claimExpiresAt: null,
+      },
+      { new: true }
+    )
+
+    if (!approved) {
+      await taskService.releaseCompletionSlot(task._id as mongoose.Types.ObjectId)
+      throw await this.explainUnavailable(submissionId, [fromStatus])
+    }
+
+    await this.rewardCompletion(approved, task, reason)
+    return approved
+  }
+
+  private async applyRejection(
+    submissionId: string,
+    reviewer: mongoose.Types.ObjectId,
+    fromStatus: 'submitted' | 'appealed',
+    reason: string
+  ): Promise<IUserTask> {
+    const now = new Date()
+
+    const rejected = await UserTask.findOneAndUpdate(
+      { _id: submissionId, status: fromStatus, ...claimableBy(reviewer, now) },
+      {
+        status: 'rejected',
+        reviewedAt: now,
+        reviewedBy: reviewer,
+        rejectionReason: reason,
+        claimedBy: null,
+        claimExpiresAt: null,
+      },
+      { new: true }
+    )
+
+    if (!rejected) {
+      throw await this.explainUnavailable(submissionId, [fromStatus])
+    }
+
+    return rejected
+  }
+
+  /**
+   * Approves a submission and awards its points. An already approved
+   * submission whose award failed is paid again safely.
+   */
+  async approve(submissionId: string, reviewerId: string | number): Promise<IUserTask> {
+    const reviewer = toObjectId(reviewerId)
+
+    const current = await UserTask.findById(submissionId).populate('taskId')
+    if (!current) {
+      throw new SubmissionError('Submission not found', 404)
+    }
+
+    const task = current.taskId as unknown as ITask
+    if (!task) {
+      throw new SubmissionError('Task no longer exists')
+    }
+
+    if (current.status === 'approved' && task.pointsReward > 0 && !current.pointsAwarded) {
+      await this.rewardCompletion(current, task, `Task approved: ${task.title}`)
+      return current
+    }
+
+    if (current.status !== 'submitted') {
+      throw new SubmissionError('Submission is not in submitted status')
+    }
+
+    const approved = await this.applyApproval(submissionId, task, reviewer, 'submitted', `Task approved: ${task.title}`)
+    await this.recordDecision(approved, 'approved', reviewer)
+    return approved
+  }
+
+  async reject(submissionId: string, reviewerId: string | number, rejectionReason?: string): Promise<IUserTask> {
+    const reviewer = toObjectId(reviewerId)
+    const reason = rejectionReason || 'Submission does not meet requirements'
+
+    const rejected = await this.applyRejection(submissionId, reviewer, 'submitted', reason)
+    await this.recordDecision(rejected, 'rejected', reviewer, reason)
+    return rejected
+  }
+
+  /**
+   * Stores a new attempt for the user's record. Verifier decisions are
+   * stored as automatic; otherwise the attempt waits for a reviewer.
+   */
+  async recordAttempt(
+    userTask: IUserTask,
+    automatic?: { decision: 'approved' | 'rejected' | null; reason?: string | null; verification?: any }
+  ): Promise<ITaskSubmission> {
+    const decided = !!automatic?.decision
+    const create = async () => {
+      const attempt = (await TaskSubmission.countDocuments({ userTaskId: userTask._id })) + 1
+      return TaskSubmission.create({
+        userTaskId: userTask._id,
+        userId: userTask.userId,
+        taskId: userTask.taskId,
+        periodKey: userTask.periodKey,
+        attempt,
+        submissionLink: userTask.submissionLink,
+        normalizedLink: userTask.normalizedLink,
+        submittedAt: userTask.submittedAt || new Date(),
+        decision: automatic?.decision || null,
+        decidedAt: decided ? new Date() : null,
+        automatic: decided,
+        reason: automatic?.reason || null,
+        verification: automatic?.verification || null,
+      })
+    }
+
+    try {
+      return await create()
+    } catch (error: any) {
+      // Another attempt took the same number; count again
+      if (error?.code === 11000) {
+        return create()
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Stores a reviewer's decision on the open attempt. Records from before
+   * attempts were kept get one created from their current state.
+   */
+  private async recordDecision(
+    userTask: IUserTask,
+    decision: 'approved' | 'rejected',
+    reviewer: mongoose.Types.ObjectId,
+    reason?: string
+  ): Promise<void> {
+    const decided = await TaskSubmission.findOneAndUpdate(
+      { userTaskId: userTask._id, decision: null },
+      { decision, decidedBy: reviewer, decidedAt: new Date(), reason: reason || null },
+      { sort: { attempt: -1 } }
+    )
+
+    if (!decided) {
+      const submission = await this.recordAttempt(userTask)
+      submission.set({ decision, decidedBy: reviewer, decidedAt: new Date(), reason: reason || null })
+      await submission.save()
+    }
+  }
+
+  /**
+   * Files an appeal against the latest attempt, which must have been
+   * rejected and not appealed before.
+   */
+  async fileAppeal(userTask: IUserTask, note: string): Promise<IUserTask> {
+    if (userTask.status !== 'rejected') {
+      throw new SubmissionError('Only rejected submissions can be appealed')
+    }
+
+    const latest = await TaskSubmission.findOne({ userTaskId: userTask._id }).sort({ attempt: -1 })
+    if (!latest || latest.decision !== 'rejected') {
+      throw new SubmissionError('Only rejected submissions can be appealed')
+    }
+    if (latest.appeal) {
+      throw new SubmissionError('This submission has already been appealed')
+    }
+
+    const appealed = await UserTask.findOneAndUpdate(
+      { _id: userTask._id, status: 'rejected' },
+      { status: 'appealed', claimedBy: null, claimExpiresAt: null },
+      { new: true }
+    )
+    if (!appealed) {
+      throw new SubmissionError('Only rejected submissions can be appealed')
+    }
+
+    latest.appeal = { note, filedAt: new Date(), decision: null }
+    await latest.save()
+
+    return appealed
+  }
+
+  /**
+   * Decides an appeal. The reviewer who rejected the attempt may not
+   * decide its appeal.
+   */
+  async decideAppeal(
+    submissionId: string,
+    reviewerId: string | number,
+    decision: 'approved' | 'rejected',
+    reason?: string
+  ): Promise<IUserTask> {
+    const reviewer = toObjectId(reviewerId)
+
+    const current = await UserTask.findById(submissionId).populate('taskId')
+    if (!current) {
+      throw new SubmissionError('Submission not found', 404)
+    }
+    if (current.status !== 'appealed') {
+      throw new SubmissionError('Submission is not in appealed status')
+    }
+
+    const task = current.taskId as unknown as ITask
+    if (!task) {
+      throw new SubmissionError('Task no longer exists')
+    }
+
+    const appealed = await TaskSubmission.findOne({
+      userTaskId: current._id,
+      'appeal.filedAt': { $ne: null },
+      'appeal.decision': null,
+    }).sort({ attempt: -1 })
+    if (!appealed) {
+      throw new SubmissionError('No open appeal for this submission')
+    }
+    if (appealed.decidedBy && appealed.decidedBy.toString() === reviewer.toString()) {
+      throw new SubmissionError('Appeals must be handled by a different reviewer', 403)
+    }
+
+    const finalReason = reason || (decision === 'rejected' ? 'Appeal rejected' : null)
+    const updated = decision === 'approved'
+      ? await this.applyApproval(submissionId, task, reviewer, 'appealed', `Task approved on appeal: ${task.title}`)
+      : await this.applyRejection(submissionId, reviewer, 'appealed', finalReason!)
+
+    appealed.set({
+      'appeal.decision': decision,
+      'appeal.decidedBy': reviewer,
+      'appeal.decidedAt': new Date(),
+      'appeal.reason': finalReason,
+    })
+    await appealed.save()
+
+    return updated
+  }
+
+  /**
+   * Attempts per user-task record, oldest first, as users may see them
+   * (reviewer identities are left out).
+   */
+  async getTimelines(userTaskIds: mongoose.Types.ObjectId[]) {
+    const submissions = await TaskSubmission.find({ userTaskId: { $in: userTaskIds } })
+      .sort({ attempt: 1 })
+      .lean()
+
+    const timelines = new Map<string, any[]>()
+    for (const submission of submissions) {
+      const key = submission.userTaskId.toString()
+      if (!timelines.has(key)) {
+        timelines.set(key, [])
+      }
+      timelines.get(key)!.push({
+        attempt: submission.attempt,
+        submissionLink: submission.submissionLink,
+        submittedAt: submission.submittedAt,
+        decision: submission.decision,
+        decidedAt: submission.decidedAt,
+        automatic: submission.automatic,
+        reason: submission.reason,
+        appeal: submission.appeal
+          ? {
+              note: submission.appeal.note,
+              filedAt: submission.appeal.filedAt,
+              decision: submission.appeal.decision,
+              decidedAt: submission.appeal.decidedAt,
+              reason: submission.appeal.reason,
+            }
+          : null,
+      })
+    }
+
+    return timelines
+  }
+
+  /**
+   * Applies one review action to each submission in turn and reports the
+   * outcome per item; a failing item does not stop the rest.
+   */
+  async bulkReview(
+    submissionIds: string[],
+    action: (submissionId: string) => Promise<IUserTask>
+  ): Promise<ReviewResult[]> {
+    const results: ReviewResult[] = []
+
+    for (const submissionId of submissionIds) {
+      try {
+        const userTask = await action(submissionId)
+        results.push({
+          submissionId,
+          success: true,
+          status: userTask.status,
+          pointsAwarded: userTask.pointsAwarded,
+        })
+      } catch (error: any) {
+        if (error instanceof SubmissionError) {
+          results.push({ submissionId, success: false, error: error.message })
+        } else {
+          logError('Error reviewing submission', { submissionId, error: error?.message })
+          results.push({ submissionId, success: false, error: 'Failed to process submission' })
+        }
+      }
+    }
+
+    return results
+  }
+}
+
+export const submissionService = new SubmissionService()
@@ -0,0 +1,292 @@
+import mongoose from 'mongoose'
+import { Task, ITask } from '../models/Task.js'
+import { IUserTask, UserTask } from '../models/UserTask.js'
+import { IUser } from '../models/User.js'
+import { Quest } from '../models/Quest.js'
+import { getCheckInDate } from './checkInService.js'
+import { verifierRegistry } from './taskVerifiers.js'
+
+export const COMPLETED_STATUSES = ['approved', 'completed']
+
+export type TaskScheduleState = 'upcoming' | 'open' | 'ended' | 'full'
+
+export const ONE_TIME_PERIOD = 'once'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface QuestStepEdge {
+  steps: mongoose.Types.ObjectId[]
+}
+
+const secondsUntil = (date: Date, now: Date): number => Math.max(0, Math.ceil((date.getTime() - now.getTime()) / 1000))
+
+class TaskService {
+  /**
+   * Period a completion made now belongs to. Periods roll over at the same
+   * local midnight as daily check-ins; weekly periods start on Monday.
+   */
+  getPeriodKey(task: ITask, now: Date = new Date()): string {
+    if (task.recurrence === 'daily') {
+      return getCheckInDate(now)
+    }
+
+    if (task.recurrence === 'weekly') {
+      const today = new Date(Date.parse(getCheckInDate(now)))
+      const daysSinceMonday = (today.getUTCDay() + 6) % 7
+      return new Date(today.getTime() - daysSinceMonday * DAY_MS).toISOString().slice(0, 10)
+    }
+
+    return ONE_TIME_PERIOD
+  }
+
+  /**
+   * Where a task stands in its schedule right now, with the numbers the
+   * frontend needs for countdowns. Slots and times are null when unlimited.
+   */
+  getSchedule(task: ITask, now: Date = new Date()) {
+    const remainingSlots = task.maxCompletions ? Math.max(0, task.maxCompletions - (task.completionCount || 0)) : null
+
+    let state: TaskScheduleState = 'open'
+    if (task.startsAt && task.startsAt > now) {
+      state = 'upcoming'
+    } else if (task.endsAt && task.endsAt <= now) {
+      state = 'ended'
+    } else if (remainingSlots === 0) {
+      state = 'full'
+    }
+
+    return {
+      state,
+      startsAt: task.startsAt || null,
+      endsAt: task.endsAt || null,
+      startsInSeconds: task.startsAt ? secondsUntil(task.startsAt, now) : null,
+      timeLeftSeconds: task.endsAt ? secondsUntil(task.endsAt, now) : null,
+      maxCompletions: task.maxCompletions || null,
+      remainingSlots,
+    }
+  }
+
+  /**
+   * Reason the task cannot be started right now, or null when it is open.
+   */
+  getClosedReason(task: ITask, now: Date = new Date()): string | null {
+    switch (this.getSchedule(task, now).state) {
+      case 'upcoming':
+        return 'This task has not started yet'
+      case 'ended':
+        return 'This task has ended'
+      case 'full':
+        return 'This task has reached its completion limit'
+      default:
+        return null
+    }
+  }
+
+  /**
+   * Whether the user is in the task's target audience. Interests match
+   * case-insensitively and any one shared interest is enough.
+   */
+  matchesAudience(task: ITask, user: IUser): boolean {
+    const audience = task.audience
+    if (!audience) {
+      return true
+    }
+
+    if (audience.userIds?.length && !audience.userIds.some(id => id.toString() === (user._id as mongoose.Types.ObjectId).toString())) {
+      return false
+    }
+
+    if (audience.interests?.length) {
+      const interests = new Set((user.interests || []).map(interest => interest.toLowerCase()))
+      if (!audience.interests.some(interest => interests.has(interest.toLowerCase()))) {
+        return false
+      }
+    }
+
+    if (audience.signedUpAfter && user.createdAt < audience.signedUpAfter) {
+      return false
+    }
+    if (audience.signedUpBefore && user.createdAt >= audience.signedUpBefore) {
+      return false
+    }
+
+    if (audience.referred != null && !!(user.referredByUserId || user.referredBy) !== audience.referred) {
+      return false
+    }
+    if (audience.emailVerified != null && !!user.emailVerified !== audience.emailVerified) {
+      return false
+    }
+
+    return true
+  }
+
+  /**
+   * Reason the user's existing record stops another attempt, or null.
+   */
+  getRepeatBlockReason(task: ITask, userTask?: IUserTask | null): string | null {
+    if (!userTask) {
+      return null
+    }
+    if (COMPLETED_STATUSES.includes(userTask.status)) {
+      return 'Task already completed'
+    }
+    if (userTask.status === 'appealed') {
+      return 'Your appeal for this task is being reviewed'
+    }
+    if (userTask.status === 'rejected' && task.repeatPolicy === 'single_attempt') {
+      return 'This task cannot be retried after a rejection'
+    }
+    const attemptLimit = verifierRegistry.getAttemptLimit(task)
+    if (userTask.status === 'rejected' && attemptLimit && (userTask.verifierAttempts || 0) >= attemptLimit) {
+      return 'No attempts left for this task'
+    }
+    return null
+  }
+
+  /**
+   * Ids of tasks the user has completed at least once (any period).
+   */
+  async getCompletedTaskIds(userId: mongoose.Types.ObjectId | string): Promise<Set<string>> {
+    const taskIds = await UserTask.distinct('taskId', { userId, status: { $in: COMPLETED_STATUSES } })
+    return new Set(taskIds.map(id => id.toString()))
+  }
+
+  /**
+   * Tasks that must be done before this one: its own prerequisites plus the
+   * previous step of every active quest it belongs to.
+   */
+  getRequiredTaskIds(task: ITask, quests: QuestStepEdge[]): string[] {
+    const taskId = (task._id as mongoose.Types.ObjectId).toString()
+    const required = new Set((task.prerequisites || []).map(id => id.toString()))
+
+    for (const quest of quests) {
+      const index = quest.steps.findIndex(step => step.toString() === taskId)
+      if (index > 0) {
+        required.add(quest.steps[index - 1].toString())
+      }
+    }
+
+    return [...required]
+  }
+
+  /**
+   * Required tasks the user has not completed yet, with titles for display.
+   */
+  async getUnmetPrerequisites(task: ITask, userId: mongoose.Types.ObjectId | string) {
+    const quests = await Quest.find({ isActive: true, steps: task._id }).select('steps').lean()
+    const required = this.getRequiredTaskIds(task, quests)
+    if (required.length === 0) {
+      return []
+    }
+
+    const completed = await this.getCompletedTaskIds(userId)
+    const unmet = required.filter(id => !completed.has(id))
+    if (unmet.length === 0) {
+      return []
+    }
+
+    return Task.find({ _id: { $in: unmet } }).select('title').lean()
+  }
+
+  /**
+   * Whether saving the given prerequisites or quest steps would make some
+   * task wait on itself. Explicit prerequisites and quest order both count.
+   */
+  async createsDependencyCycle(change: {
+    taskId?: string
+    prerequisites?: string[]
+    questId?: string
+    steps?: string[]
+  }): Promise<boolean> {
+    const graph = new Map<string, Set<string>>()
+    const addEdge = (from: string, to: string) => {
+      if (!graph.has(from)) {
+        graph.set(from, new Set())
+      }
+      graph.get(from)!.add(to)
+    }
+    const addSteps = (steps: string[]) => {
+      for (let i = 1; i < steps.length; i++) {
+        addEdge(steps[i], steps[i - 1])
+      }
+    }
+
+    const tasks = await Task.find({ prerequisites: { $ne: [] } }).select('prerequisites').lean()
+    for (const task of tasks) {
+      if (task._id.toString() === change.taskId) {
+        continue
+      }
+      for (const prerequisite of task.prerequisites) {
+        addEdge(task._id.toString(), prerequisite.toString())
+      }
+    }
+    for (const prerequisite of change.prerequisites || []) {
+      addEdge(change.taskId!, prerequisite)
+    }
+
+    const quests = await Quest.find({ isActive: true }).select('steps').lean()
+    for (const quest of quests) {
+      if (quest._id.toString() !== change.questId) {
+        addSteps(quest.steps.map(step => step.toString()))
+      }
+    }
+    addSteps(change.steps || [])
+
+    // Depth-first search for a back edge
+    const visiting = new Set<string>()
+    const done = new Set<string>()
+    const visit = (node: string): boolean => {
+      if (visiting.has(node)) {
+        return true
+      }
+      if (done.has(node)) {
+        return false
+      }
+      visiting.add(node)
+      for (const next of graph.get(node) || []) {
+        if (visit(next)) {
+          return true
+        }
+      }
+      visiting.delete(node)
+      done.add(node)
+      return false
+    }
+
+    return [...graph.keys()].some(node => visit(node))
+  }
+
+  /**
+   * Takes one of the task's completion slots. The cap is checked in the same
+   * update, so concurrent completions cannot overshoot it.
+   */
+  async reserveCompletionSlot(taskId: mongoose.Types.ObjectId | string): Promise<boolean> {
+    const reserved = await Task.findOneAndUpdate(
+      {
+        _id: taskId,
+        $or: [
+          { maxCompletions: null },
+          { $expr: { $lt: [{ $ifNull: ['$completionCount', 0] }, '$maxCompletions'] } },
+        ],
+      },
+      { $inc: { completionCount: 1 } }
+    )
+    return !!reserved
+  }
+
+  async releaseCompletionSlot(taskId: mongoose.Types.ObjectId | string): Promise<void> {
+    await Task.updateOne({ _id: taskId, completionCount: { $gt: 0 } }, { $inc: { completionCount: -1 } })
+  }
+
+  /**
+   * Resets the counter from the completions on record, e.g. when a cap is
+   * added to a task that already has completions.
+   */
+  async recountCompletions(taskId: mongoose.Types.ObjectId | string): Promise<number> {
+    const count = await UserTask.countDocuments({ taskId, status: { $in: COMPLETED_STATUSES } })
+    await Task.updateOne({ _id: taskId }, { completionCount: count })
+    return count
+  }
+}
+
+export const taskService = new TaskService()
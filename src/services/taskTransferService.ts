@@ -0,0 +1,164 @@
+import mongoose from 'mongoose'
+import { ITask } from '../models/Task.js'
+import { toCsv, parseCsv } from '../utils/csv.js'
+
+export class TaskTransferError extends Error {}
+
+// Fields of a task definition, in the shape POST /api/tasks accepts. Counters,
+// authorship and timestamps belong to the stored task, not the definition.
+export const TASK_DEFINITION_FIELDS = [
+  'title',
+  'description',
+  'taskType',
+  'actionUrl',
+  'pointsReward',
+  'isActive',
+  'requiresVerification',
+  'verificationMethod',
+  'minTier',
+  'startsAt',
+  'endsAt',
+  'maxCompletions',
+  'repeatPolicy',
+  'recurrence',
+  'prerequisites',
+  'quiz',
+  'duplicateLinkPolicy',
+  'audience',
+  'metadata',
+] as const
+
+const NUMBER_FIELDS = new Set(['pointsReward', 'maxCompletions'])
+const BOOLEAN_FIELDS = new Set(['isActive', 'requiresVerification'])
+// Written to CSV cells as JSON
+const JSON_FIELDS = new Set(['prerequisites', 'quiz', 'audience', 'metadata'])
+
+export interface FieldChange {
+  from: any
+  to: any
+}
+
+// Dates as ISO strings and ids as strings, so definitions survive JSON
+const toPlain = (value: any): any => {
+  if (value === null || value === undefined) {
+    return value
+  }
+  if (value instanceof Date) {
+    return value.toISOString()
+  }
+  if (value instanceof mongoose.Types.ObjectId) {
+    return value.toString()
+  }
+  if (Array.isArray(value)) {
+    return value.map(toPlain)
+  }
+  if (typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, toPlain(entry)]))
+  }
+  return value
+}
+
+// Key order and unset values must not count as differences
+const canonical = (value: any): string => {
+  const sortKeys = (entry: any): any => {
+    if (Array.isArray(entry)) {
+      return entry.map(sortKeys)
+    }
+    if (entry && typeof entry === 'object') {
+      return Object.fromEntries(
+        Object.keys(entry)
+          .filter(key => entry[key] !== null && entry[key] !== undefined)
+          .sort()
+          .map(key => [key, sortKeys(entry[key])])
+      )
+    }
+    return entry
+  }
+  return JSON.stringify(sortKeys(value) ?? null)
+}
+
+class TaskTransferService {
+  /**
+   * The task as a definition that can be imported again or stored in a
+   * template. Unset fields are left out.
+   */
+  toDefinition(task: ITask): Record<string, any> {
+    const source = task.toObject()
+    const definition: Record<string, any> = {}
+    for (const field of TASK_DEFINITION_FIELDS) {
+      const value = toPlain(source[field])
+      if (value !== null && value !== undefined) {
+        definition[field] = value
+      }
+    }
+    return definition
+  }
+
+  toExport(task: ITask): Record<string, any> {
+    return { id: (task._id as mongoose.Types.ObjectId).toString(), ...this.toDefinition(task) }
+  }
+
+  toCsv(tasks: ITask[]): string {
+    const rows = tasks.map(task => {
+      const row = this.toExport(task)
+      return Object.fromEntries(Object.entries(row).map(([field, value]) => [
+        field,
+        JSON_FIELDS.has(field) ? JSON.stringify(value) : String(value),
+      ]))
+    })
+    return toCsv(['id', ...TASK_DEFINITION_FIELDS], rows)
+  }
+
+  /**
+   * Reads CSV written by toCsv back into raw definitions. Empty cells are
+   * left out; values that do not parse are passed on as text so schema
+   * validation reports them against the right field.
+   */
+  fromCsv(text: string): Record<string, any>[] {
+    let rows: Record<string, string>[]
+    try {
+      rows = parseCsv(text)
+    } catch (error: any) {
+      throw new TaskTransferError(`Invalid CSV: ${error?.message || 'unreadable'}`)
+    }
+
+    return rows.map(row => {
+      const definition: Record<string, any> = {}
+      for (const [field, cell] of Object.entries(row)) {
+        const value = cell.trim()
+        if (value === '') {
+          continue
+        }
+        if (NUMBER_FIELDS.has(field)) {
+          definition[field] = Number.isNaN(Number(value)) ? value : Number(value)
+        } else if (BOOLEAN_FIELDS.has(field)) {
+          definition[field] = value === 'true' ? true : value === 'false' ? false : value
+        } else if (JSON_FIELDS.has(field)) {
+          try {
+            definition[field] = JSON.parse(value)
+          } catch {
+            definition[field] = value
+          }
+        } else {
+          definition[field] = value
+        }
+      }
+      return definition
+    })
+  }
+
+  /**
+   * Fields whose value differs between two definitions.
+   */
+  diff(before: Record<string, any>, after: Record<string, any>): Record<string, FieldChange> {
+    const changes: Record<string, FieldChange> = {}
+    for (const field of TASK_DEFINITION_FIELDS) {
+      if (canonical(before[field]) !== canonical(after[field])) {
+        changes[field] = { from: before[field] ?? null, to: after[field] ?? null }
+      }
+    }
+    return changes
+  }
+}
+
+export const taskTransferService = new TaskTransferService()
@@ -0,0 +1,214 @@
+import { ITask } from '../models/Task.js'
+import { IUser } from '../models/User.js'
+import { telegramBot, TelegramBotAdapter } from './telegramBot.js'
+
+export type VerificationOutcome = 'approved' | 'rejected' | 'inconclusive'
+
+export interface VerificationResult {
+  outcome: VerificationOutcome
+  reason?: string
+  data?: Record<string, any>
+}
+
+// What the user sent with the submission
+export interface VerificationInput {
+  submissionLink?: string
+  answer?: string
+  code?: string
+}
+
+export interface TaskVerifier {
+  method: string
+  requiresLink: boolean
+  /**
+   * Checks the verifier's settings in Task.metadata; returns an error message
+   * or null when they are usable.
+   */
+  validateConfig(metadata: any): string | null
+  /**
+   * Automatic checks a user gets per task period, or null for no limit.
+   * Verifiers whose input can be guessed must set one.
+   */
+  maxAttempts?(metadata: any): number | null
+  verify(task: ITask, user: IUser, input: VerificationInput): Promise<VerificationResult>
+}
+
+const normalizeAnswer = (value: string): string => value.trim().toLowerCase().replace(/\s+/g, ' ')
+
+const inconclusive = (reason: string): VerificationResult => ({ outcome: 'inconclusive', reason })
+
+export const DEFAULT_GUESS_ATTEMPTS = 3
+
+// metadata.maxAttempts for answer and code verifiers; DEFAULT_GUESS_ATTEMPTS when unset
+const validateGuessAttempts = (metadata: any): string | null =>
+  metadata?.maxAttempts === undefined || (Number.isInteger(metadata.maxAttempts) && metadata.maxAttempts >= 1)
+    ? null
+    : 'metadata.maxAttempts must be a positive integer'
+
+const guessAttempts = (metadata: any): number => metadata?.maxAttempts ?? DEFAULT_GUESS_ATTEMPTS
+
+/**
+ * Approves links matching metadata.urlPattern (a regular expression).
+ */
+const urlPatternVerifier: TaskVerifier = {
+  method: 'url_pattern',
+  requiresLink: true,
+  validateConfig(metadata) {
+    if (typeof metadata?.urlPattern !== 'string' || !metadata.urlPattern) {
+      return 'metadata.urlPattern is required'
+    }
+    try {
+      new RegExp(metadata.urlPattern, 'i')
+      return null
+    } catch {
+      return 'metadata.urlPattern is not a valid regular expression'
+    }
+  },
+  async verify(task, _user, input) {
+    if (this.validateConfig(task.metadata)) {
+      return inconclusive('URL pattern not configured')
+    }
+    const matches = new RegExp(task.metadata.urlPattern, 'i').test(input.submissionLink || '')
+    return matches
+      ? { outcome: 'approved' }
+      : { outcome: 'rejected', reason: 'The submitted link does not match what this task asks for' }
+  },
+}
+
+/**
+ * Approves users who are members of metadata.telegramChatId, checked with
+ * the bot adapter against the user's linked Telegram account.
+ */
+export const createTelegramMembershipVerifier = (bot: TelegramBotAdapter): TaskVerifier => ({
+  method: 'telegram_membership',
+  requiresLink: false,
+  validateConfig(metadata) {
+    return metadata?.telegramChatId ? null : 'metadata.telegramChatId is required'
+  },
+  async verify(task, user) {
+    if (this.validateConfig(task.metadata)) {
+      return inconclusive('Telegram chat not configured')
+    }
+    if (!user.telegramId) {
+      return { outcome: 'rejected', reason: 'Link your Telegram account before completing this task' }
+    }
+
+    const isMember = await bot.isChatMember(String(task.metadata.telegramChatId), user.telegramId)
+    if (isMember === null) {
+      return inconclusive('Telegram membership could not be checked')
+    }
+    return isMember
+      ? { outcome: 'approved', data: { telegramId: user.telegramId } }
+      : { outcome: 'rejected', reason: 'You have not joined the Telegram chat yet' }
+  },
+})
+
+/**
+ * Approves a correct answer to a single question; metadata.answers lists
+ * every accepted answer (compared case-insensitively). Users get
+ * metadata.maxAttempts tries.
+ */
+const quizAnswerVerifier: TaskVerifier = {
+  method: 'quiz_answer',
+  requiresLink: false,
+  validateConfig(metadata) {
+    const answers = metadata?.answers
+    return Array.isArray(answers) && answers.length > 0 && answers.every(answer => typeof answer === 'string')
+      ? validateGuessAttempts(metadata)
+      : 'metadata.answers must be a non-empty list of strings'
+  },
+  maxAttempts: guessAttempts,
+  async verify(task, _user, input) {
+    if (this.validateConfig(task.metadata)) {
+      return inconclusive('Quiz answers not configured')
+    }
+    if (!input.answer) {
+      return { outcome: 'rejected', reason: 'An answer is required' }
+    }
+    const accepted = (task.metadata.answers as string[]).map(normalizeAnswer)
+    return accepted.includes(normalizeAnswer(input.answer))
+      ? { outcome: 'approved' }
+      : { outcome: 'rejected', reason: 'Incorrect answer' }
+  },
+}
+
+/**
+ * Approves any of the codes in metadata.promoCodes (case-insensitive).
+ * Users get metadata.maxAttempts tries.
+ */
+const promoCodeVerifier: TaskVerifier = {
+  method: 'promo_code',
+  requiresLink: false,
+  validateConfig(metadata) {
+    const codes = metadata?.promoCodes
+    return Array.isArray(codes) && codes.length > 0 && codes.every(code => typeof code === 'string')
+      ? validateGuessAttempts(metadata)
+      : 'metadata.promoCodes must be a non-empty list of strings'
+  },
+  maxAttempts: guessAttempts,
+  async verify(task, _user, input) {
+    if (this.validateConfig(task.metadata)) {
+      return inconclusive('Promo codes not configured')
+    }
+    if (!input.code) {
+      return { outcome: 'rejected', reason: 'A code is required' }
+    }
+    const codes = (task.metadata.promoCodes as string[]).map(code => code.trim().toUpperCase())
+    return codes.includes(input.code.trim().toUpperCase())
+      ? { outcome: 'approved' }
+      : { outcome: 'rejected', reason: 'Invalid code' }
+  },
+}
+
+/**
+ * Maps Task.verificationMethod to a verifier. Tasks with no method, or one
+ * that is not registered, are reviewed manually.
+ */
+class VerifierRegistry {
+  private verifiers = new Map<string, TaskVerifier>()
+
+  register(verifier: TaskVerifier): void {
+    this.verifiers.set(verifier.method, verifier)
+  }
+
+  get(method?: string | null): TaskVerifier | null {
+    return (method && this.verifiers.get(method)) || null
+  }
+
+  /**
+   * Attempt limit of the task's verifier, or null when submissions are not
+   * limited.
+   */
+  getAttemptLimit(task: ITask): number | null {
+    const verifier = this.get(task.verificationMethod)
+    return verifier?.maxAttempts ? verifier.maxAttempts(task.metadata) : null
+  }
+
+  methods(): string[] {
+    return [...this.verifiers.keys()]
+  }
+
+  /**
+   * Runs the task's verifier. Errors count as inconclusive so the submission
+   * still reaches the manual queue.
+   */
+  async verify(task: ITask, user: IUser, input: VerificationInput): Promise<VerificationResult> {
+    const verifier = this.get(task.verificationMethod)
+    if (!verifier) {
+      return inconclusive('No automatic verifier')
+    }
+
+    try {
+      return await verifier.verify(task, user, input)
+    } catch (error: any) {
+      return inconclusive(`Verifier error: ${error?.message || 'unknown'}`)
+    }
+  }
+}
+
+export const verifierRegistry = new VerifierRegistry()
+
+verifierRegistry.register(urlPatternVerifier)
+verifierRegistry.register(createTelegramMembershipVerifier(telegramBot))
+verifierRegistry.register(quizAnswerVerifier)
+verifierRegistry.register(promoCodeVerifier)
@@ -0,0 +1,50 @@
+import { logWarn } from '../utils/logger.js'
+
+export interface TelegramBotAdapter {
+  /**
+   * Whether the Telegram user is a member of the chat, or null when that
+   * cannot be determined (bot not configured, API unavailable, ...).
+   */
+  isChatMember(chatId: string, telegramUserId: string): Promise<boolean | null>
+}
+
+const MEMBER_STATUSES = ['creator', 'administrator', 'member', 'restricted']
+const REQUEST_TIMEOUT_MS = 5000
+
+/**
+ * Bot API adapter. The bot has to be an administrator of the chat for
+ * getChatMember to see its members.
+ */
+class BotApiAdapter implements TelegramBotAdapter {
+  async isChatMember(chatId: string, telegramUserId: string): Promise<boolean | null> {
+    const token = process.env.TELEGRAM_BOT_TOKEN
+    if (!token) {
+      return null
+    }
+
+    try {
+      const params = new URLSearchParams({ chat_id: chatId, user_id: telegramUserId })
+      const response = await fetch(`https://api.telegram.org/bot${token}/getChatMember?${params}`, {
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      })
+      const body: any = await response.json()
+
+      if (!body.ok) {
+        // "user not found" means the user has never been in the chat
+        if (response.status === 400 && /user not found|participant_id_invalid/i.test(body.description || '')) {
+          return false
+        }
+        logWarn('Telegram getChatMember failed', { chatId, status: response.status, description: body.description })
+        return null
+      }
+
+      const member = body.result
+      return MEMBER_STATUSES.includes(member.status) && (member.status !== 'restricted' || member.is_member === true)
+    } catch (error: any) {
+      logWarn('Telegram getChatMember request error', { chatId, error: error?.message })
+      return null
+    }
+  }
+}
+
+export const telegramBot: TelegramBotAdapter = new BotApiAdapter()
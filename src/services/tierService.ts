@@ -0,0 +1,177 @@
+import mongoose from 'mongoose'
+import { Tier } from '../models/Tier.js'
+import { User, IUser } from '../models/User.js'
+import { OnboardingEvent } from '../models/OnboardingEvent.js'
+import { emailService } from './emailService.js'
+import { logInfo, logError } from '../utils/logger.js'
+
+export class TierError extends Error {}
+
+export interface TierDefinition {
+  key: string
+  name: string
+  minPoints: number
+  perks: string[]
+  notifyByEmail: boolean
+}
+
+// Used until an admin saves a tier table
+export const DEFAULT_TIERS: TierDefinition[] = [
+  { key: 'bronze', name: 'Bronze', minPoints: 0, perks: [], notifyByEmail: false },
+  { key: 'silver', name: 'Silver', minPoints: 1000, perks: [], notifyByEmail: true },
+  { key: 'gold', name: 'Gold', minPoints: 5000, perks: [], notifyByEmail: true },
+]
+
+const CACHE_TTL_MS = 60 * 1000
+
+/**
+ * Tiers are reached with lifetime points earned (User.lifetimePoints), so
+ * spending points never drops a user to a lower tier.
+ */
+class TierService {
+  private cache: { tiers: TierDefinition[]; expiresAt: number } | null = null
+
+  async getTiers(): Promise<TierDefinition[]> {
+    if (this.cache && this.cache.expiresAt > Date.now()) {
+      return this.cache.tiers
+    }
+
+    const saved = await Tier.find().sort({ minPoints: 1 }).lean()
+    const tiers: TierDefinition[] = saved.length > 0
+      ? saved.map(tier => ({
+          key: tier.key,
+          name: tier.name,
+          minPoints: tier.minPoints,
+          perks: tier.perks || [],
+          notifyByEmail: tier.notifyByEmail,
+        }))
+      : DEFAULT_TIERS
+
+    this.cache = { tiers, expiresAt: Date.now() + CACHE_TTL_MS }
+    return tiers
+  }
+
+  async replaceTiers(tiers: TierDefinition[]): Promise<TierDefinition[]> {
+    const keys = new Set(tiers.map(tier => tier.key))
+    if (keys.size !== tiers.length) {
+      throw new TierError('Tier keys must be unique')
+    }
+    if (!tiers.some(tier => tier.minPoints === 0)) {
+      throw new TierError('One tier must start at 0 points')
+    }
+
+    const session = await mongoose.startSession()
+    try {
+      await session.withTransaction(async () => {
+        await Tier.deleteMany({}, { session })
+        await Tier.insertMany(tiers, { session })
+      })
+    } finally {
+      await session.endSession()
+    }
+
+    this.cache = null
+    logInfo('Tier table replaced', { tiers: tiers.map(tier => `${tier.key}:${tier.minPoints}`).join(', ') })
+    return this.getTiers()
+  }
+
+  resolveTier(tiers: TierDefinition[], lifetimePoints: number): TierDefinition {
+    let current = tiers[0]
+    for (const tier of tiers) {
+      if (lifetimePoints >= tier.minPoints) {
+        current = tier
+      }
+    }
+    return current
+  }
+
+  /**
+   * Position of a tier in the table (0 = lowest), or -1 for an unknown key.
+   */
+  getTierRank(tiers: TierDefinition[], key?: string | null): number {
+    return key ? tiers.findIndex(tier => tier.key === key) : -1
+  }
+
+  async getUserTier(user: IUser): Promise<TierDefinition> {
+    const tiers = await this.getTiers()
+    return this.resolveTier(tiers, user.lifetimePoints || 0)
+  }
+
+  async describe(user: IUser) {
+    const tiers = await this.getTiers()
+    const current = this.resolveTier(tiers, user.lifetimePoints || 0)
+    const next = tiers[this.getTierRank(tiers, current.key) + 1]
+
+    return {
+      key: current.key,
+      name: current.name,
+      perks: current.perks,
+      lifetimePoints: user.lifetimePoints || 0,
+      next: next
+        ? {
+            key: next.key,
+            name: next.name,
+            minPoints: next.minPoints,
+            pointsNeeded: next.minPoints - (user.lifetimePoints || 0),
+          }
+        : null,
+    }
+  }
+
+  /**
+   * Stores the tier matching the user's lifetime points. Promotions are
+   * recorded as an OnboardingEvent and optionally emailed.
+   */
+  async recomputeTier(userId: string): Promise<void> {
+    const user = await User.findById(userId).select('email name lifetimePoints tier')
+    if (!user) {
+      return
+    }
+
+    const tiers = await this.getTiers()
+    const target = this.resolveTier(tiers, user.lifetimePoints || 0)
+    const previousKey = user.tier || null
+    if (target.key === previousKey) {
+      return
+    }
+
+    // Only the request that actually moves the user records the promotion
+    const updated = await User.findOneAndUpdate(
+      { _id: userId, tier: previousKey },
+      { tier: target.key }
+    )
+    if (!updated) {
+      return
+    }
+
+    const previousRank = this.getTierRank(tiers, previousKey)
+    const newRank = this.getTierRank(tiers, target.key)
+    const promoted = previousRank >= 0 ? newRank > previousRank : newRank > 0
+    if (!promoted) {
+      return
+    }
+
+    await OnboardingEvent.create({
+      userId: user._id,
+      eventType: 'tier_promoted',
+      eventData: { from: previousKey, to: target.key, lifetimePoints: user.lifetimePoints },
+    })
+
+    logInfo('User promoted to new tier', { userId, from: previousKey, to: target.key })
+
+    if (target.notifyByEmail) {
+      await emailService.sendTierPromotionEmail(user.email, user.name, target.name, target.perks)
+    }
+  }
+
+  /**
+   * Fire-and-forget hook for the points manager.
+   */
+  handleLifetimePointsChanged(userId: string): void {
+    this.recomputeTier(userId).catch(error => {
+      logError('Error recomputing user tier', { userId, error: error?.message })
+    })
+  }
+}
+
+export const tierService = new TierService()
@@ -0,0 +1,25 @@
+import type { Request } from 'express'
+
+/**
+ * Reads one cookie from the request. There is no cookie-parser middleware, so
+ * the Cookie header is parsed here.
+ */
+export function readCookie(req: Request, name: string): string | undefined {
+  const header = req.headers.cookie
+  if (!header) {
+    return undefined
+  }
+
+  for (const part of header.split(';')) {
+    const separator = part.indexOf('=')
+    if (separator === -1) continue
+    if (part.slice(0, separator).trim() === name) {
+      try {
+        return decodeURIComponent(part.slice(separator + 1).trim())
+      } catch {
+        return undefined
+      }
+    }
+  }
+  return undefined
+}
@@ -0,0 +1,76 @@
+const escapeCell = (value: string): string => {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+/**
+ * Serializes rows as RFC 4180 CSV with a header line. Missing values are
+ * written as empty cells.
+ */
+export const toCsv = (headers: string[], rows: Record<string, string | null | undefined>[]): string => {
+  const lines = [headers.map(escapeCell).join(',')]
+  for (const row of rows) {
+    lines.push(headers.map(header => escapeCell(row[header] ?? '')).join(','))
+  }
+  return lines.join('\r\n')
+}
+
+/**
+ * Parses RFC 4180 CSV into one object per line, keyed by the header line.
+ * Quoted cells may contain commas, quotes ("") and line breaks. Blank lines
+ * are skipped.
+ */
+export const parseCsv = (text: string): Record<string, string>[] => {
+  const records: string[][] = []
+  let record: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      record.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++
+      }
+      record.push(cell)
+      records.push(record)
+      record = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (quoted) {
+    throw new Error('Unterminated quoted cell')
+  }
+  if (cell || record.length > 0) {
+    record.push(cell)
+    records.push(record)
+  }
+
+  const nonEmpty = records.filter(line => line.some(value => value.trim() !== ''))
+  if (nonEmpty.length === 0) {
+    return []
+  }
+
+  const [headers, ...lines] = nonEmpty
+  return lines.map(line => Object.fromEntries(headers.map((header, index) => [header.trim(), line[index] ?? ''])))
+}
@@ -5,11 +5,13 @@ const envSchema = z.object({
   NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
   PORT: z.string().default('3001'),
   FRONTEND_URL: z.string().url(),
+  API_URL: z.string().url().optional(), // Public URL of this API, used in tracked referral links
 
   MONGODB_URI: z.string().url(),
 
   JWT_SECRET: z.string().min(32, 'JWT_SECRET must be at least 32 characters'),
   JWT_EXPIRES_IN: z.string().default('7d'),
+  ATTRIBUTION_SECRET: z.string().min(32, 'ATTRIBUTION_SECRET must be at least 32 characters'),
 
   EMAIL_HOST: z.string().optional(),
   EMAIL_PORT: z.string().default('587'),
@@ -33,6 +35,10 @@ const envSchema = z.object({
     z.string().email().optional()
   ),
 
+  LEADERBOARD_REFRESH_INTERVAL_MS: z.string().default('300000'),
+  CHECK_IN_TIMEZONE: z.string().default('UTC'),
+  TELEGRAM_BOT_TOKEN: z.string().optional(),
+
   LOG_LEVEL: z.enum(['error', 'warn', 'info', 'debug']).default('info'),
 })
 
@@ -24,3 +24,17 @@ export function getJwtSecretOrNull(): Secret | null {
   return (process.env.JWT_SECRET as Secret) || null
 }
 
+
+/**
+ * Gets the secret for referral attribution tokens and visitor IP hashes.
+ * Kept apart from JWT_SECRET so a leaked attribution key cannot sign logins.
+ */
+export function getAttributionSecret(): Secret {
+  const secret = process.env.ATTRIBUTION_SECRET
+  if (!secret) {
+    const error = new Error('ATTRIBUTION_SECRET is not configured in environment variables')
+    logError('ATTRIBUTION_SECRET validation failed', error)
+    throw error
+  }
+  return secret as Secret
+}
@@ -0,0 +1,68 @@
+// Query parameters that only track where a click came from, on any site
+const TRACKING_PARAMS = new Set([
+  'fbclid',
+  'gclid',
+  'dclid',
+  'msclkid',
+  'mc_cid',
+  'mc_eid',
+])
+
+const TWITTER_HOSTS = new Set(['x.com', 'twitter.com', 'mobile.twitter.com', 'mobile.x.com', 'm.twitter.com'])
+const YOUTUBE_HOSTS = new Set(['youtube.com', 'm.youtube.com', 'music.youtube.com', 'youtu.be'])
+const INSTAGRAM_HOSTS = new Set(['instagram.com', 'm.instagram.com'])
+
+// Share-tracking parameters of single sites. Elsewhere the same names can
+// select content (e.g. YouTube's t= timestamp), so they are kept there.
+const SITE_TRACKING_PARAMS: [Set<string>, Set<string>][] = [
+  [TWITTER_HOSTS, new Set(['s', 't', 'ref', 'ref_src', 'ref_url'])],
+  [YOUTUBE_HOSTS, new Set(['si', 'feature'])],
+  [INSTAGRAM_HOSTS, new Set(['igsh', 'igshid', 'ref'])],
+]
+
+const isTrackingParam = (host: string, name: string): boolean => {
+  const lower = name.toLowerCase()
+  if (lower.startsWith('utm_') || TRACKING_PARAMS.has(lower)) {
+    return true
+  }
+  return SITE_TRACKING_PARAMS.some(([hosts, params]) => hosts.has(host) && params.has(lower))
+}
+
+/**
+ * Canonical form of a submitted link, used to spot the same link submitted
+ * by several accounts:
+ *  - https, lowercase host without "www."
+ *  - tracking parameters (global ones, plus the site's own share
+ *    parameters for X, YouTube and Instagram) and the fragment removed,
+ *    other parameters sorted
+ *  - twitter.com and x.com links point at x.com; status links become
+ *    x.com/i/status/<id> because the handle in the path is not checked by X
+ *
+ * Returns null for strings that are not URLs.
+ */
+export const normalizeSubmissionLink = (link: string): string | null => {
+  let url: URL
+  try {
+    url = new URL(link.trim())
+  } catch {
+    return null
+  }
+
+  let host = url.hostname.toLowerCase().replace(/^www\./, '')
+  let path = url.pathname.replace(/\/+$/, '') || '/'
+
+  const params = [...url.searchParams.entries()]
+    .filter(([name]) => !isTrackingParam(host, name))
+    .sort(([a], [b]) => a.localeCompare(b))
+
+  if (TWITTER_HOSTS.has(host)) {
+    host = 'x.com'
+    const status = path.match(/^\/(?:[^/]+|i\/web|i)\/status(?:es)?\/(\d+)/i)
+    path = status ? `/i/status/${status[1]}` : path.toLowerCase()
+  }
+
+  const query = new URLSearchParams(params).toString()
+
+  const port = url.port && url.port !== '443' && url.port !== '80' ? `:${url.port}` : ''
+  return `https://${host}${port}${path}${query ? `?${query}` : ''}`
+}
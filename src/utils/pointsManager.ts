@@ -1,62 +1,246 @@
+import mongoose from 'mongoose'
 import { User } from '../models/User.js'
 import { OnboardingEvent } from '../models/OnboardingEvent.js'
+import { PointsTransaction } from '../models/PointsTransaction.js'
+import { tierService } from '../services/tierService.js'
 import { logInfo, logWarn, logError } from './logger.js'
 
+export interface PointsResult {
+  success: boolean
+  newBalance: number
+  transactionId?: string
+  duplicate?: boolean // The idempotency key had already been used; nothing was applied
+  error?: string
+}
+
+class PointsError extends Error {}
+
+const isDuplicateKeyError = (error: any): boolean => error?.code === 11000
+
+const findByIdempotencyKey = async (userId: string, idempotencyKey: string): Promise<PointsResult | null> => {
+  const transaction = await PointsTransaction.findOne({ idempotencyKey }).select('userId')
+  if (!transaction) {
+    return null
+  }
+
+  if (transaction.userId.toString() !== userId) {
+    throw new Error(`Idempotency key ${idempotencyKey} belongs to another user`)
+  }
+
+  const user = await User.findById(userId).select('points')
+  return {
+    success: true,
+    duplicate: true,
+    newBalance: user?.points || 0,
+    transactionId: (transaction._id as mongoose.Types.ObjectId).toString(),
+  }
+}
+
+/**
+ * Applies a signed amount to a user's balance and appends the matching ledger
+ * entry in a single transaction. The balance is only ever changed with $inc,
+ * so concurrent writers cannot lose each other's updates, and a debit that
+ * would take the balance below zero matches no document and is refused.
+ *
+ * When an idempotency key is given, the unique index on the ledger rejects a
+ * second entry for the same key and the whole transaction (including the
+ * balance change) is rolled back.
+ */
+const applyTransaction = async (
+  userId: string,
+  amount: number,
+  reason: string,
+  metadata?: any,
+  idempotencyKey?: string
+): Promise<PointsResult> => {
+  if (idempotencyKey) {
+    const existing = await findByIdempotencyKey(userId, idempotencyKey)
+    if (existing) {
+      return existing
+    }
+  }
+
+  const session = await mongoose.startSession()
+
+  try {
+    let newBalance = 0
+    let transactionId = ''
+
+    await session.withTransaction(async () => {
+      const filter: any = { _id: userId }
+      if (amount < 0) {
+        filter.points = { $gte: -amount }
+      }
+
+      // Lifetime points grow with earned credits, never with refunds or admin
+      // adjustments, and shrink only when an earned credit is clawed back
+      const inc: any = { points: amount }
+      const earned = !metadata?.refund && !metadata?.adjustment
+      if ((amount > 0 && earned) || (amount < 0 && metadata?.clawback)) {
+        inc.lifetimePoints = amount
+      }
+
+      const user = await User.findOneAndUpdate(
+        filter,
+        { $inc: inc },
+        { new: true, session }
+      )
+
+      if (!user) {
+        const exists = await User.exists({ _id: userId }).session(session)
+        throw new PointsError(exists ? 'Insufficient points balance' : 'User not found')
+      }
+
+      newBalance = user.points
+
+      const [transaction] = await PointsTransaction.create(
+        [
+          {
+            userId: user._id,
+            type: amount > 0 ? 'credit' : 'debit',
+            amount,
+            balanceAfter: newBalance,
+            reason,
+            idempotencyKey,
+            metadata,
+          },
+        ],
+        { session }
+      )
+      transactionId = (transaction._id as mongoose.Types.ObjectId).toString()
+    })
+
+    return { success: true, newBalance, transactionId }
+  } catch (error) {
+    if (error instanceof PointsError) {
+      return { success: false, error: error.message, newBalance: 0 }
+    }
+    if (idempotencyKey && isDuplicateKeyError(error)) {
+      const existing = await findByIdempotencyKey(userId, idempotencyKey)
+      if (existing) {
+        return existing
+      }
+    }
+    throw error
+  } finally {
+    await session.endSession()
+  }
+}
+
+/**
+ * Credits points to a user. Callers pass an idempotency key derived from the
+ * source event (e.g. `task:<userTaskId>`), so a retried request returns the
+ * original award with `duplicate: true` instead of crediting twice.
+ */
 export const awardPoints = async (
   userId: string,
   amount: number,
   reason: string,
-  metadata?: any
-): Promise<{ success: boolean; newBalance: number; error?: string }> => {
+  metadata?: any,
+  idempotencyKey?: string
+): Promise<PointsResult> => {
   try {
     if (amount <= 0) {
       return { success: false, error: 'Points amount must be positive', newBalance: 0 }
     }
 
-    const user = await User.findById(userId)
-    if (!user) {
-      return { success: false, error: 'User not found', newBalance: 0 }
+    const result = await applyTransaction(userId, amount, reason, metadata, idempotencyKey)
+    if (!result.success || result.duplicate) {
+      if (result.duplicate) {
+        logInfo('Duplicate points award ignored', { userId, amount, reason, idempotencyKey })
+      }
+      return result
     }
 
-    const oldBalance = user.points || 0
-    const newBalance = oldBalance + amount
-
-    user.points = newBalance
-    await user.save()
-
-    // Log points award event
+    // Keep the activity feed in sync with the ledger
     await OnboardingEvent.create({
-      userId: user._id,
+      userId,
       eventType: 'points_awarded',
       eventData: {
         amount,
         reason,
-        oldBalance,
-        newBalance,
+        newBalance: result.newBalance,
+        transactionId: result.transactionId,
         metadata,
       },
     })
 
-    logInfo('Points awarded', { userId, amount, reason, oldBalance, newBalance })
-    return { success: true, newBalance }
+    logInfo('Points awarded', { userId, amount, reason, newBalance: result.newBalance })
+    tierService.handleLifetimePointsChanged(userId)
+    return result
   } catch (error) {
     logError('Error awarding points', error)
     return { success: false, error: 'Failed to award points', newBalance: 0 }
   }
 }
 
-export const verifyPointsBalance = async (userId: string, expectedBalance: number): Promise<boolean> => {
+/**
+ * Debits points from a user. Refused without side effects when the balance is
+ * too low, so callers can treat a failed result as "nothing was spent".
+ */
+export const deductPoints = async (
+  userId: string,
+  amount: number,
+  reason: string,
+  metadata?: any,
+  idempotencyKey?: string
+): Promise<PointsResult> => {
+  try {
+    if (amount <= 0) {
+      return { success: false, error: 'Points amount must be positive', newBalance: 0 }
+    }
+
+    const result = await applyTransaction(userId, -amount, reason, metadata, idempotencyKey)
+    if (!result.success || result.duplicate) {
+      return result
+    }
+
+    await OnboardingEvent.create({
+      userId,
+      eventType: 'points_deducted',
+      eventData: {
+        amount,
+        reason,
+        newBalance: result.newBalance,
+        transactionId: result.transactionId,
+        metadata,
+      },
+    })
+
+    logInfo('Points deducted', { userId, amount, reason, newBalance: result.newBalance })
+    if (metadata?.clawback) {
+      tierService.handleLifetimePointsChanged(userId)
+    }
+    return result
+  } catch (error) {
+    logError('Error deducting points', error)
+    return { success: false, error: 'Failed to deduct points', newBalance: 0 }
+  }
+}
+
+export const getLedgerBalance = async (userId: string): Promise<number> => {
+  const [result] = await PointsTransaction.aggregate([
+    { $match: { userId: new mongoose.Types.ObjectId(userId) } },
+    { $group: { _id: null, total: { $sum: '$amount' } } },
+  ])
+
+  return result?.total || 0
+}
+
+export const verifyPointsBalance = async (userId: string): Promise<boolean> => {
   try {
-    const user = await User.findById(userId)
+    const user = await User.findById(userId).select('points')
     if (!user) {
       return false
     }
 
     const actualBalance = user.points || 0
-    if (actualBalance !== expectedBalance) {
+    const ledgerBalance = await getLedgerBalance(userId)
+
+    if (actualBalance !== ledgerBalance) {
       logWarn('Points balance mismatch detected', {
         userId,
-        expected: expectedBalance,
+        ledger: ledgerBalance,
         actual: actualBalance,
       })
       return false
@@ -72,22 +256,24 @@ export const verifyPointsBalance = async (userId: string, expectedBalance: numbe
 export const getPointsHistory = async (userEmail: string, limit: number = 50) => {
   try {
     const user = await User.findOne({ email: userEmail.toLowerCase() })
-    
+
     if (!user) {
       return []
     }
 
-    const events = await OnboardingEvent.find({ 
-      userId: user._id,
-      eventType: 'points_awarded'
-    })
+    const transactions = await PointsTransaction.find({ userId: user._id })
       .sort({ createdAt: -1 })
       .limit(limit)
       .lean()
 
-    return events.map(event => ({
-      ...event.eventData,
-      timestamp: event.createdAt,
+    return transactions.map(transaction => ({
+      id: transaction._id,
+      type: transaction.type,
+      amount: transaction.amount,
+      balanceAfter: transaction.balanceAfter,
+      reason: transaction.reason,
+      metadata: transaction.metadata,
+      timestamp: transaction.createdAt,
     }))
   } catch (error) {
     logError('Error fetching points history', error)
@@ -0,0 +1,113 @@
+import { Types } from 'mongoose'
+import { RewardRule } from '../models/RewardRule.js'
+import { logInfo, logError } from './logger.js'
+
+// Amounts used until an admin saves a rule. Version 0 means "built-in default".
+export const REWARD_RULE_DEFAULTS = {
+  renopays_tag_created: 100,
+  telegram_verified: 200,
+  referral_referrer: 150,
+  referral_referee: 100,
+  daily_check_in: 10,
+  streak_freeze_cost: 200,
+}
+
+// Escalating amounts: day N of a streak earns schedule[N - 1], and the last
+// value applies to every day after the schedule ends. Like the amounts these
+// apply only until a rule is saved; a saved rule without a schedule is flat.
+export const REWARD_SCHEDULE_DEFAULTS: Partial<Record<keyof typeof REWARD_RULE_DEFAULTS, number[]>> = {
+  daily_check_in: [10, 15, 20, 25, 30, 40, 50],
+}
+
+export type RewardRuleKey = keyof typeof REWARD_RULE_DEFAULTS
+
+export interface ResolvedRewardRule {
+  key: RewardRuleKey
+  points: number
+  schedule?: number[]
+  version: number
+}
+
+const CACHE_TTL_MS = 60 * 1000
+
+const cache = new Map<RewardRuleKey, { rule: ResolvedRewardRule; expiresAt: number }>()
+
+export const isRewardRuleKey = (key: string): key is RewardRuleKey => Object.hasOwn(REWARD_RULE_DEFAULTS, key)
+
+export const getRewardRule = async (key: RewardRuleKey): Promise<ResolvedRewardRule> => {
+  const cached = cache.get(key)
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.rule
+  }
+
+  try {
+    const latest = await RewardRule.findOne({ key }).sort({ version: -1 }).lean()
+    const rule: ResolvedRewardRule = latest
+      ? { key, points: latest.points, schedule: latest.schedule, version: latest.version }
+      : { key, points: REWARD_RULE_DEFAULTS[key], schedule: REWARD_SCHEDULE_DEFAULTS[key], version: 0 }
+
+    cache.set(key, { rule, expiresAt: Date.now() + CACHE_TTL_MS })
+    return rule
+  } catch (error) {
+    // Never block an award on a settings lookup - fall back to the last known value
+    logError('Error loading reward rule', { key, error })
+    return cached?.rule || { key, points: REWARD_RULE_DEFAULTS[key], schedule: REWARD_SCHEDULE_DEFAULTS[key], version: 0 }
+  }
+}
+
+export const getAllRewardRules = async (): Promise<ResolvedRewardRule[]> => {
+  const keys = Object.keys(REWARD_RULE_DEFAULTS) as RewardRuleKey[]
+  return Promise.all(keys.map(key => getRewardRule(key)))
+}
+
+export const updateRewardRule = async (
+  key: RewardRuleKey,
+  points: number,
+  updatedBy?: string | number,
+  description?: string,
+  schedule?: number[]
+): Promise<ResolvedRewardRule> => {
+  const current = await RewardRule.findOne({ key }).sort({ version: -1 }).select('version').lean()
+
+  // The unique (key, version) index rejects a concurrent save of the same version
+  const saved = await RewardRule.create({
+    key,
+    version: (current?.version || 0) + 1,
+    points,
+    schedule,
+    description,
+    updatedBy: updatedBy ? new Types.ObjectId(String(updatedBy)) : undefined,
+  })
+
+  const rule: ResolvedRewardRule = {
+    key,
+    points: saved.points,
+    schedule: saved.schedule,
+    version: saved.version,
+  }
+  cache.set(key, { rule, expiresAt: Date.now() + CACHE_TTL_MS })
+
+  logInfo('Reward rule updated', { key, points, version: saved.version })
+  return rule
+}
+
+/**
+ * Points for the given (1-based) step of an escalating rule such as a streak.
+ * Rules without a schedule always pay their flat amount.
+ */
+export const getScheduledPoints = (rule: ResolvedRewardRule, step: number): number => {
+  if (!rule.schedule?.length) {
+    return rule.points
+  }
+  const index = Math.min(Math.max(step, 1), rule.schedule.length) - 1
+  return rule.schedule[index]
+}
+
+/**
+ * Metadata stored with an award so the ledger records which rule version
+ * produced the amount.
+ */
+export const ruleMetadata = (rule: ResolvedRewardRule) => ({
+  rule: rule.key,
+  ruleVersion: rule.version,
+})